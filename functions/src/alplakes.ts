@@ -1,3 +1,6 @@
+import { toZurichDateStr, toLocalHour } from './utils.js';
+import type { WaterTempSample, DayWaterTemp } from './types.js';
+
 interface AlplakesResponse {
   time: string[];
   variables: {
@@ -12,64 +15,127 @@ interface AlplakesResponse {
   };
 }
 
+/** Keep samples from this far back (trend) up to the end of the Alplakes forecast. */
+const SERIES_PAST_MS = 24 * 3600_000;
+
+export interface WaterTempSeries {
+  current: number | null;
+  /** First time step of the simulation, ms since epoch. */
+  simulationStart: number | null;
+  /** When the simulation file was published (Last-Modified), ms since epoch. */
+  simulationUpdatedAt: number | null;
+  depth: number;
+  series: WaterTempSample[];
+}
+
+export interface WaterTempResult {
+  temps: Map<string, WaterTempSeries>;
+  /** Error message per lake that could not be fetched (those lakes have no temperature). */
+  failures: Map<string, string>;
+}
+
+export const EMPTY_WATER_TEMP: WaterTempSeries = {
+  current: null,
+  simulationStart: null,
+  simulationUpdatedAt: null,
+  depth: 1,
+  series: [],
+};
+
 /**
  * Fetch water temperature for a single lake from the Alplakes/EAWAG API.
- * Returns { current, depth } or { current: null, depth: 1 } on failure.
+ * Returns the sample closest to now, the model depth, the time series from
+ * 24h ago to the end of the simulation, and when the simulation starts and
+ * was published. Throws on failure.
  */
 export async function fetchWaterTemp(
   alplakesKey: string,
-): Promise<{ current: number | null; depth: number }> {
-  try {
-    const url = `https://alplakes-eawag.s3.eu-central-1.amazonaws.com/simulations/simstrat/cache/${alplakesKey}/linegraph_T.json`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      return { current: null, depth: 1 };
-    }
+): Promise<WaterTempSeries> {
+  const url = `https://alplakes-eawag.s3.eu-central-1.amazonaws.com/simulations/simstrat/cache/${alplakesKey}/linegraph_T.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
 
-    const data = await response.json() as AlplakesResponse;
-    const now = Date.now();
+  const data = await response.json() as AlplakesResponse;
+  const lastModified = Date.parse(response.headers.get('last-modified') ?? '');
+  const now = Date.now();
 
-    // Find the index closest to now
-    let closestIdx = 0;
-    let closestDiff = Infinity;
-    for (let i = 0; i < data.time.length; i++) {
-      const diff = Math.abs(new Date(data.time[i]).getTime() - now);
-      if (diff < closestDiff) {
-        closestDiff = diff;
-        closestIdx = i;
-      }
+  // Find the index closest to now, and keep the recent + forecast part of the series
+  let closestIdx = 0;
+  let closestDiff = Infinity;
+  const series: WaterTempSample[] = [];
+  for (let i = 0; i < data.time.length; i++) {
+    const time = new Date(data.time[i]).getTime();
+    const diff = Math.abs(time - now);
+    if (diff < closestDiff) {
+      closestDiff = diff;
+      closestIdx = i;
+    }
+    const temp = data.variables.T.data[i];
+    if (time >= now - SERIES_PAST_MS && Number.isFinite(temp)) {
+      series.push({ time, temp: Math.round(temp * 10) / 10 });
     }
+  }
 
-    const temp = data.variables.T.data[closestIdx];
-    const depth = data.depth.data;
+  const temp = data.variables.T.data[closestIdx];
+  const depth = data.depth.data;
 
-    return {
-      current: Math.round(temp * 10) / 10, // 1 decimal place
-      depth,
-    };
-  } catch {
-    return { current: null, depth: 1 };
-  }
+  return {
+    current: Math.round(temp * 10) / 10, // 1 decimal place
+    simulationStart: data.time.length > 0 ? new Date(data.time[0]).getTime() : null,
+    simulationUpdatedAt: Number.isFinite(lastModified) ? lastModified : null,
+    depth,
+    series,
+  };
 }
 
 /**
  * Fetch water temperatures for all unique lakes in parallel.
- * Returns a map of alplakesKey -> { current, depth }.
+ * Returns a map of alplakesKey -> { current, depth, series }; a lake that
+ * fails gets an empty series and its error in `failures`.
  */
 export async function fetchAllWaterTemps(
   alplakesKeys: string[],
-): Promise<Map<string, { current: number | null; depth: number }>> {
+): Promise<WaterTempResult> {
   const uniqueKeys = [...new Set(alplakesKeys)];
-  const results = await Promise.all(
-    uniqueKeys.map(async (key) => ({
-      key,
-      temp: await fetchWaterTemp(key),
-    })),
-  );
+  const results = await Promise.allSettled(uniqueKeys.map((key) => fetchWaterTemp(key)));
+
+  const temps = new Map<string, WaterTempSeries>();
+  const failures = new Map<string, string>();
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      temps.set(uniqueKeys[i], result.value);
+    } else {
+      temps.set(uniqueKeys[i], EMPTY_WATER_TEMP);
+      failures.set(uniqueKeys[i], result.reason instanceof Error ? result.reason.message : String(result.reason));
+    }
+  });
+  return { temps, failures };
+}
 
-  const map = new Map<string, { current: number | null; depth: number }>();
-  for (const { key, temp } of results) {
-    map.set(key, temp);
+/**
+ * Summarise a water temperature series for one local date:
+ * mean of the morning (6–12h) and afternoon (12–18h) samples.
+ */
+export function summarizeDayWaterTemp(
+  series: WaterTempSample[],
+  date: string,
+  timezone: string,
+): DayWaterTemp | undefined {
+  const morning: number[] = [];
+  const afternoon: number[] = [];
+  for (const sample of series) {
+    const t = new Date(sample.time);
+    if (toZurichDateStr(t, timezone) !== date) continue;
+    const hour = toLocalHour(t, timezone);
+    if (hour >= 6 && hour < 12) morning.push(sample.temp);
+    else if (hour >= 12 && hour < 18) afternoon.push(sample.temp);
   }
-  return map;
+  if (morning.length === 0 && afternoon.length === 0) return undefined;
+
+  const mean = (values: number[]) => values.length > 0
+    ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10
+    : null;
+  return { morning: mean(morning), afternoon: mean(afternoon) };
 }
@@ -0,0 +1,121 @@
+import type { MergedData, MeteoValues } from './meteo.js';
+import type {
+  SpotConfig,
+  CorrectionMode,
+  SectorCorrection,
+  SectorStats,
+} from './types.js';
+
+/** Sector names, 45° each, starting at N and going clockwise. */
+export const SECTOR_NAMES = ['N', 'NE', 'E', 'SE', 'S', 'SO', 'O', 'NO'];
+
+/** Minimum number of forecast/observation pairs before a sector factor is learned. */
+const MIN_LEARN_SAMPLES = 24;
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 2;
+
+const IDENTITY: SectorCorrection = { speedFactor: 1, gustFactor: 1, offset: 0 };
+
+/**
+ * Index (0–7) of the 45° sector a wind direction falls into.
+ */
+export function sectorIndex(deg: number): number {
+  return Math.round((((deg % 360) + 360) % 360) / 45) % 8;
+}
+
+function clampFactor(f: number): number {
+  return Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, f));
+}
+
+/**
+ * Derive per-sector factors from verification sums (observed / forecast).
+ * Sectors without enough samples keep the identity correction.
+ */
+export function learnSectorCorrections(
+  sectors: Record<string, SectorStats> | undefined,
+): SectorCorrection[] {
+  return SECTOR_NAMES.map((name) => {
+    const s = sectors?.[name];
+    if (!s || s.n < MIN_LEARN_SAMPLES || s.forecastSpeedSum <= 0) return IDENTITY;
+
+    const speedFactor = clampFactor(s.observedSpeedSum / s.forecastSpeedSum);
+    const gustFactor = s.gustN >= MIN_LEARN_SAMPLES && s.forecastGustSum > 0
+      ? clampFactor(s.observedGustSum / s.forecastGustSum)
+      : speedFactor;
+
+    return {
+      speedFactor: Math.round(speedFactor * 100) / 100,
+      gustFactor: Math.round(gustFactor * 100) / 100,
+      offset: 0,
+    };
+  });
+}
+
+/**
+ * Load learned corrections for every spot configured in `learned` mode.
+ * Returns Map<pointId, sector corrections>.
+ */
+export async function loadLearnedCorrections(
+  db: FirebaseFirestore.Firestore,
+  spots: SpotConfig[],
+): Promise<Map<string, SectorCorrection[]>> {
+  const learnedSpots = spots.filter((s) => s.correction?.mode === 'learned');
+  const result = new Map<string, SectorCorrection[]>();
+  if (learnedSpots.length === 0) return result;
+
+  const snaps = await db.getAll(
+    ...learnedSpots.map((s) => db.collection('verification').doc(s.pointId)),
+  );
+  for (const snap of snaps) {
+    const sectors = snap.exists
+      ? (snap.data()!.sectors as Record<string, SectorStats> | undefined)
+      : undefined;
+    result.set(snap.id, learnSectorCorrections(sectors));
+  }
+  return result;
+}
+
+function correctValues(values: MeteoValues, c: SectorCorrection): MeteoValues {
+  const speed = Math.max(0, values.speed * c.speedFactor + c.offset);
+  const gust = Math.max(speed, values.gust * c.gustFactor + c.offset);
+  return {
+    ...values,
+    speed: Math.round(speed * 10) / 10,
+    gust: Math.round(gust * 10) / 10,
+    raw: { speed: values.speed, gust: values.gust },
+  };
+}
+
+/**
+ * Apply per-spot, per-sector corrections to the fetched forecast data.
+ * Spots without a correction are passed through untouched.
+ * Returns the corrected data and the correction mode applied per pointId.
+ */
+export function applyCorrections(
+  data: MergedData,
+  spots: SpotConfig[],
+  learned: Map<string, SectorCorrection[]>,
+): { data: MergedData; modes: Map<string, CorrectionMode> } {
+  const corrected: MergedData = new Map(data);
+  const modes = new Map<string, CorrectionMode>();
+
+  for (const spot of spots) {
+    const correction = spot.correction;
+    const spotData = data.get(spot.pointId);
+    if (!correction || !spotData) continue;
+
+    const sectors = correction.mode === 'learned'
+      ? learned.get(spot.pointId)
+      : correction.sectors;
+    if (!sectors || sectors.length !== SECTOR_NAMES.length) continue;
+
+    const spotCorrected = new Map<string, MeteoValues>();
+    for (const [ts, values] of spotData) {
+      spotCorrected.set(ts, correctValues(values, sectors[sectorIndex(values.dir)]));
+    }
+    corrected.set(spot.pointId, spotCorrected);
+    modes.set(spot.pointId, correction.mode);
+  }
+
+  return { data: corrected, modes };
+}
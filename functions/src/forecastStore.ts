@@ -0,0 +1,63 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { ForecastDocument, ForecastParam, ParamStatus, SpotForecast } from './types.js';
+
+/**
+ * The latest forecast is stored as a manifest (`forecasts/latest`: run, status
+ * and the list of spots) plus one document per spot in
+ * `forecasts/latest/spots/{pointId}`, so no single document grows with the
+ * number of spots and readers only download the spots they show.
+ */
+export const FORECAST_DOC = 'forecasts/latest';
+const SPOTS_COLLECTION = `${FORECAST_DOC}/spots`;
+
+/**
+ * Write a refreshed forecast: every spot document, then the manifest, in one
+ * batch so readers never see a manifest pointing at missing spots. Spot
+ * documents of spots removed from the config are deleted.
+ */
+export async function writeForecast(
+  db: FirebaseFirestore.Firestore,
+  csvTimestamp: string,
+  paramStatus: Partial<Record<ForecastParam, ParamStatus>>,
+  spots: SpotForecast[],
+): Promise<void> {
+  const pointIds = spots.map((s) => s.pointId);
+  const existing = await db.collection(SPOTS_COLLECTION).listDocuments();
+
+  const batch = db.batch();
+  for (const spot of spots) {
+    batch.set(db.collection(SPOTS_COLLECTION).doc(spot.pointId), spot);
+  }
+  for (const ref of existing) {
+    if (!pointIds.includes(ref.id)) batch.delete(ref);
+  }
+  batch.set(db.doc(FORECAST_DOC), {
+    updatedAt: FieldValue.serverTimestamp(),
+    csvTimestamp,
+    paramStatus,
+    pointIds,
+  });
+  await batch.commit();
+}
+
+/**
+ * Read the manifest of the latest forecast, or undefined before the first refresh.
+ */
+export async function readForecastManifest(
+  db: FirebaseFirestore.Firestore,
+): Promise<ForecastDocument | undefined> {
+  const snap = await db.doc(FORECAST_DOC).get();
+  return snap.exists ? snap.data() as ForecastDocument : undefined;
+}
+
+/**
+ * Read the forecast of the given spots. Spots without a document are skipped.
+ */
+export async function readForecastSpots(
+  db: FirebaseFirestore.Firestore,
+  pointIds: string[],
+): Promise<SpotForecast[]> {
+  if (pointIds.length === 0) return [];
+  const snaps = await db.getAll(...pointIds.map((id) => db.collection(SPOTS_COLLECTION).doc(id)));
+  return snaps.filter((snap) => snap.exists).map((snap) => snap.data() as SpotForecast);
+}
@@ -0,0 +1,131 @@
+import { defineString } from 'firebase-functions/params';
+import type { MergedData, MeteoValues } from './meteo.js';
+import type { ForecastProvider } from './providers.js';
+import type { ForecastPoint, SpotConfig } from './types.js';
+
+/**
+ * Base URL of an Open-Meteo compatible forecast API (JSON, gridded models).
+ * Override it to point the grid provider at a local stand-in.
+ */
+const GRID_FORECAST_BASE_URL = defineString('GRID_FORECAST_BASE_URL', {
+  default: 'https://api.open-meteo.com',
+});
+
+const FORECAST_DAYS = 4;
+
+const HOURLY_VARIABLES = [
+  'wind_speed_10m',
+  'wind_gusts_10m',
+  'wind_direction_10m',
+  'sunshine_duration',
+  'temperature_2m',
+  'precipitation',
+  'precipitation_probability',
+  'cloud_cover',
+  'weather_code',
+];
+
+/** WMO weather codes for thunderstorms (95: thunderstorm, 96/99: with hail). */
+const THUNDERSTORM_CODES = new Set([95, 96, 99]);
+
+interface GridResponse {
+  /** Centre of the model grid cell used, which can be a few km from the requested point. */
+  latitude: number;
+  longitude: number;
+  hourly: {
+    time: string[]; // YYYY-MM-DDTHH:mm, UTC
+    wind_speed_10m: (number | null)[];
+    wind_gusts_10m: (number | null)[];
+    wind_direction_10m: (number | null)[];
+    sunshine_duration?: (number | null)[]; // seconds
+    temperature_2m?: (number | null)[];
+    precipitation?: (number | null)[];
+    precipitation_probability?: (number | null)[];
+    cloud_cover?: (number | null)[];
+    weather_code?: (number | null)[];
+  };
+}
+
+/**
+ * Convert an ISO time ("2026-07-14T12:00") to the CSV timestamp format (YYYYMMDDHHmm).
+ */
+function toCsvTimestamp(isoTime: string): string {
+  return isoTime.replace(/[-T:]/g, '').slice(0, 12);
+}
+
+function optional(values: (number | null)[] | undefined, i: number): number | undefined {
+  const v = values?.[i];
+  return v === null || v === undefined ? undefined : v;
+}
+
+/**
+ * Fetch the hourly forecast for one spot's coordinates.
+ * Returns Map<timestamp, values> and the grid cell used.
+ */
+async function fetchGridPoint(spot: SpotConfig): Promise<{ values: Map<string, MeteoValues>; point: ForecastPoint }> {
+  const params = new URLSearchParams({
+    latitude: String(spot.lat),
+    longitude: String(spot.lon),
+    hourly: HOURLY_VARIABLES.join(','),
+    wind_speed_unit: 'kmh',
+    timezone: 'GMT',
+    forecast_days: String(FORECAST_DAYS),
+  });
+  const url = `${GRID_FORECAST_BASE_URL.value()}/v1/forecast?${params}`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Grid forecast fetch failed for ${spot.pointId}: HTTP ${response.status}`);
+  }
+  const { latitude, longitude, hourly } = await response.json() as GridResponse;
+
+  const result = new Map<string, MeteoValues>();
+  for (let i = 0; i < hourly.time.length; i++) {
+    const speed = hourly.wind_speed_10m[i];
+    if (speed === null) continue;
+
+    const weatherCode = optional(hourly.weather_code, i);
+    const sunSeconds = optional(hourly.sunshine_duration, i);
+    result.set(toCsvTimestamp(hourly.time[i]), {
+      speed,
+      gust: hourly.wind_gusts_10m[i] ?? speed,
+      dir: hourly.wind_direction_10m[i] ?? 0,
+      sun: sunSeconds !== undefined ? sunSeconds / 60 : undefined,
+      temp: optional(hourly.temperature_2m, i),
+      precip: optional(hourly.precipitation, i),
+      precipProb: optional(hourly.precipitation_probability, i),
+      cloud: optional(hourly.cloud_cover, i),
+      ...(weatherCode !== undefined && THUNDERSTORM_CODES.has(weatherCode) && { thunderstorm: true }),
+    });
+  }
+  return { values: result, point: { lat: latitude, lon: longitude } };
+}
+
+/**
+ * Generic grid provider: any spot with coordinates, wherever it is.
+ * Data is keyed by the spot's `pointId` like the MétéoSuisse provider.
+ * Spots that fail are listed in `failedPoints`; throws only if all of them do.
+ */
+export const gridProvider: ForecastProvider = {
+  id: 'grid',
+  fetch: async (spots) => {
+    const data: MergedData = new Map();
+    const points = new Map<string, ForecastPoint>();
+    const failedPoints = new Map<string, string>();
+    // One failing spot doesn't drop the others
+    const results = await Promise.allSettled(spots.map(fetchGridPoint));
+    results.forEach((result, i) => {
+      const { pointId } = spots[i];
+      if (result.status === 'fulfilled') {
+        data.set(pointId, result.value.values);
+        points.set(pointId, result.value.point);
+      } else {
+        failedPoints.set(pointId, result.reason instanceof Error ? result.reason.message : String(result.reason));
+      }
+    });
+    if (data.size === 0 && failedPoints.size > 0) {
+      throw new Error(`Grid forecast failed for every spot: ${[...failedPoints.values()][0]}`);
+    }
+    return { data, points, failedPoints };
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase-admin/firestore';
+import { readArchivedRuns } from './history.js';
+import type { ForecastRun } from './types.js';
+
+const POINT_ID = '100100';
+const HOUR = 3600_000;
+const T0 = Date.parse('2026-06-15T00:00:00Z');
+
+/**
+ * Just enough of Firestore for readArchivedRuns: one run manifest per hour
+ * from T0, each with the spot, answering the runAt range query newest first.
+ */
+function fakeDb(runCount: number): FirebaseFirestore.Firestore {
+  const manifests = Array.from({ length: runCount }, (_, i): Partial<ForecastRun> => ({
+    csvTimestamp: String(i),
+    runAt: Timestamp.fromMillis(T0 + i * HOUR),
+    pointIds: [POINT_ID],
+  }));
+  let lower = -Infinity;
+  let upper = Infinity;
+  let max = Infinity;
+  const query = {
+    where(_field: string, op: string, value: Timestamp) {
+      if (op === '>=') lower = value.toMillis();
+      else upper = value.toMillis();
+      return query;
+    },
+    orderBy: () => query,
+    limit(n: number) {
+      max = n;
+      return query;
+    },
+    async get() {
+      const docs = manifests
+        .filter((m) => m.runAt!.toMillis() >= lower && m.runAt!.toMillis() < upper)
+        .sort((a, b) => b.runAt!.toMillis() - a.runAt!.toMillis())
+        .slice(0, max)
+        .map((m) => ({ data: () => m }));
+      return { docs, size: docs.length };
+    },
+    doc: () => ({ collection: () => ({ doc: () => ({}) }) }),
+  };
+  return {
+    collection: () => query,
+    getAll: async (...refs: unknown[]) => refs.map(() => ({ exists: true, data: () => ({ pointId: POINT_ID, days: [] }) })),
+  } as unknown as FirebaseFirestore.Firestore;
+}
+
+describe('readArchivedRuns', () => {
+  it('reads the newest runs first and flags the older ones left out', async () => {
+    const { runs, truncated } = await readArchivedRuns(fakeDb(10), POINT_ID, T0, T0 + 10 * HOUR, 4);
+    expect(runs.map((r) => r.csvTimestamp)).toEqual(['9', '8', '7', '6']);
+    expect(truncated).toBe(true);
+  });
+
+  it('is not truncated when every run fits', async () => {
+    const { runs, truncated } = await readArchivedRuns(fakeDb(4), POINT_ID, T0, T0 + 10 * HOUR, 4);
+    expect(runs).toHaveLength(4);
+    expect(truncated).toBe(false);
+  });
+});
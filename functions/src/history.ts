@@ -0,0 +1,148 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { fromLocalDateHour, parseCsvTimestamp } from './utils.js';
+import type { ArchivedSpotRun, ForecastRun, ForecastRunSummary, SpotForecast } from './types.js';
+
+/**
+ * Each run is archived like forecasts/latest: a manifest
+ * `forecastHistory/{csvTimestamp}` (run time and list of spots) plus one document
+ * per spot in `forecastHistory/{csvTimestamp}/spots/{pointId}`, so a run stays
+ * well below the 1 MiB document limit whatever the number of spots.
+ */
+const HISTORY_COLLECTION = 'forecastHistory';
+const HISTORY_RETENTION_DAYS = 7;
+const MAX_RUNS_RETURNED = 72;
+/** A run forecasts at most this many days ahead; older runs cannot cover a date. */
+const FORECAST_HORIZON_DAYS = 10;
+const TIMEZONE = 'Europe/Zurich';
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface GetForecastHistoryInput {
+  pointId: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+/**
+ * Store a forecast run in the history collection, keyed by its csvTimestamp,
+ * then drop runs older than the retention window.
+ * Refreshing twice on the same MétéoSuisse run overwrites the same documents.
+ */
+export async function archiveForecastRun(
+  db: FirebaseFirestore.Firestore,
+  csvTimestamp: string,
+  spots: SpotForecast[],
+): Promise<void> {
+  const runRef = db.collection(HISTORY_COLLECTION).doc(csvTimestamp);
+  const batch = db.batch();
+  for (const spot of spots) {
+    batch.set(runRef.collection('spots').doc(spot.pointId), spot);
+  }
+  batch.set(runRef, {
+    csvTimestamp,
+    runAt: Timestamp.fromDate(parseCsvTimestamp(csvTimestamp)),
+    archivedAt: FieldValue.serverTimestamp(),
+    pointIds: spots.map((s) => s.pointId),
+  });
+  await batch.commit();
+
+  await pruneForecastHistory(db);
+}
+
+/**
+ * Read one spot's forecast from every run archived in [fromMs, toMs), newest first.
+ * Runs without that spot are skipped. With a limit, only the newest `limit`
+ * runs are read and `truncated` tells whether older ones were left out.
+ */
+export async function readArchivedRuns(
+  db: FirebaseFirestore.Firestore,
+  pointId: string,
+  fromMs: number,
+  toMs: number,
+  limit?: number,
+): Promise<{ runs: ArchivedSpotRun[]; truncated: boolean }> {
+  let query = db
+    .collection(HISTORY_COLLECTION)
+    .where('runAt', '>=', Timestamp.fromMillis(fromMs))
+    .where('runAt', '<', Timestamp.fromMillis(toMs))
+    .orderBy('runAt', 'desc');
+  // One more than asked for, to know whether there are older runs
+  if (limit) query = query.limit(limit + 1);
+  const runsSnap = await query.get();
+  const truncated = limit !== undefined && runsSnap.size > limit;
+  const docs = truncated ? runsSnap.docs.slice(0, limit) : runsSnap.docs;
+
+  // Runs archived before spots were split out have no pointIds and are skipped
+  const runs = docs
+    .map((d) => d.data() as ForecastRun)
+    .filter((run) => run.pointIds?.includes(pointId));
+  if (runs.length === 0) return { runs: [], truncated };
+
+  const spotSnaps = await db.getAll(
+    ...runs.map((run) => db.collection(HISTORY_COLLECTION).doc(run.csvTimestamp).collection('spots').doc(pointId)),
+  );
+  return {
+    runs: runs.flatMap((run, i) => spotSnaps[i].exists
+      ? [{ csvTimestamp: run.csvTimestamp, runAt: run.runAt, spot: spotSnaps[i].data() as SpotForecast }]
+      : []),
+    truncated,
+  };
+}
+
+/**
+ * Delete archived runs older than HISTORY_RETENTION_DAYS, with their spot documents.
+ */
+async function pruneForecastHistory(db: FirebaseFirestore.Firestore): Promise<void> {
+  const cutoff = Timestamp.fromMillis(Date.now() - HISTORY_RETENTION_DAYS * 24 * 3600_000);
+  const staleSnap = await db
+    .collection(HISTORY_COLLECTION)
+    .where('runAt', '<', cutoff)
+    .get();
+
+  if (staleSnap.empty) return;
+
+  for (const runDoc of staleSnap.docs) {
+    await db.recursiveDelete(runDoc.ref);
+  }
+  console.log(`Pruned ${staleSnap.size} archived forecast runs`);
+}
+
+/**
+ * Callable Cloud Function: getForecastHistory
+ * Returns the archived runs (newest first) that can cover the requested
+ * [from, to] date range for one spot, with their days restricted to it.
+ * At most MAX_RUNS_RETURNED runs are read; `truncated` is set when older runs,
+ * possibly covering `from`, were left out. Requires authentication.
+ */
+export const getForecastHistory = onCall(
+  { region: 'europe-west6' },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Authentication required');
+    }
+
+    const { pointId, from, to } = (request.data ?? {}) as Partial<GetForecastHistoryInput>;
+
+    if (!pointId || typeof pointId !== 'string') {
+      throw new HttpsError('invalid-argument', 'pointId is required');
+    }
+    if (!from || !to || !DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+      throw new HttpsError('invalid-argument', 'from and to must be YYYY-MM-DD dates with from <= to');
+    }
+
+    // Runs made before the end of `to`, recent enough to reach `from`
+    const fromMs = fromLocalDateHour(from, 0, TIMEZONE).getTime() - FORECAST_HORIZON_DAYS * 24 * 3600_000;
+    const toMs = fromLocalDateHour(to, 23, TIMEZONE).getTime() + 3600_000;
+    const { runs: archived, truncated } = await readArchivedRuns(getFirestore(), pointId, fromMs, toMs, MAX_RUNS_RETURNED);
+
+    const runs: ForecastRunSummary[] = [];
+    for (const { csvTimestamp, runAt, spot } of archived) {
+      const days = spot.days.filter((d) => d.date >= from && d.date <= to);
+      if (days.length === 0) continue;
+
+      runs.push({ csvTimestamp, runAt: runAt.toMillis(), days });
+    }
+
+    return { pointId, runs, truncated };
+  },
+);
@@ -1,15 +1,26 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { initializeApp } from 'firebase-admin/app';
-import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
-import { fetchAllMeteoData, type MergedData } from './meteo.js';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { toPreviousRun, type ParseTiming, type PreviousRun } from './meteo.js';
+import { fetchAllForecasts, UpstreamError } from './providers.js';
 import { fetchAllWaterTemps } from './alplakes.js';
-import { parseCsvTimestamp, toZurichDateStr, toLocalHour, dirText } from './utils.js';
+import { archiveForecastRun } from './history.js';
+import { readForecastManifest, readForecastSpots, writeForecast } from './forecastStore.js';
+import { acquireLease, keepLeaseAlive, releaseLease, renewLease } from './lease.js';
+import { recordRefreshAttempt } from './refreshStatus.js';
+import { buildProvenance, loadStationSources } from './provenance.js';
+import { applyCorrections, loadLearnedCorrections } from './correction.js';
+import { buildSpotForecast } from './spotForecast.js';
 import type {
   SpotConfig,
   NavigabilityConfig,
   SpotForecast,
-  DayForecast,
-  HourlyData,
+  RefreshConfig,
+  ForecastParam,
+  ParamStatus,
+  RefreshAttempt,
+  UpstreamFailure,
 } from './types.js';
 
 // Admin functions
@@ -21,18 +32,49 @@ export { sendDailyNotifications, sendTestNotification } from './notifications.js
 // Webcams
 export { searchWebcams, getWebcamPlayer } from './webcams.js';
 
+// Forecast history
+export { getForecastHistory } from './history.js';
+
+// Observations
+export { ingestObservations } from './observations.js';
+
+// Forecast verification
+export { verifyForecasts } from './verification.js';
+
 initializeApp();
 const db = getFirestore();
 
 const LOCK_DOC = 'forecasts/_lock';
-const FORECAST_DOC = 'forecasts/latest';
-const LOCK_TTL_MS = 2 * 60 * 1000; // 2 minutes
-const LOCK_WAIT_MS = 5000; // 5 seconds
-const DATA_TTL_MS = 60 * 60 * 1000; // 1 hour
+const LOCK_TTL_MS = 2 * 60 * 1000; // 2 minutes, renewed while the refresh runs
+const LOCK_RETRY_MAX_MS = 10_000; // poll interval suggested to callers while another refresh runs
+const REFRESH_CONFIG_DOC = 'config/refresh';
+/** A failed parameter is filled from the previous run only if that run is recent enough. */
+const FALLBACK_MAX_AGE_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+const DEFAULT_REFRESH_CONFIG: RefreshConfig = {
+  enabled: true,
+  intervalMinutes: 60,
+  dataTtlMinutes: 60,
+};
+/** Accepted range of both refresh durations, in minutes; the scheduler runs every 10. */
+const REFRESH_MINUTES_MIN = 10;
+const REFRESH_MINUTES_MAX = 360;
+
+interface RefreshResult {
+  /** `in-progress`: another instance holds the lock; call again after `retryAfterMs`. */
+  status: 'fresh' | 'in-progress' | 'refreshed';
+  message: string;
+  retryAfterMs?: number;
+  timings?: {
+    totalMs: number;
+    fetchMs: number;
+    csv: ParseTiming[];
+  };
+}
 
 /**
  * Callable Cloud Function: refreshForecast
- * Fetches MétéoSuisse CSVs + Alplakes water temps, computes navigability,
+ * Fetches each spot's forecast provider + Alplakes water temps, computes navigability,
  * and writes the result to Firestore.
  */
 export const refreshForecast = onCall(
@@ -43,223 +85,266 @@ export const refreshForecast = onCall(
   },
   async (request) => {
     const force = request.data?.force === true;
+    const refreshConfig = await loadRefreshConfig();
+    return runRefresh(force, refreshConfig.dataTtlMinutes * 60_000, 'client');
+  },
+);
 
-    // Step 0: Read config from Firestore
-    const [spotsSnap, navSnap] = await Promise.all([
-      db.doc('config/spots').get(),
-      db.doc('config/navigability').get(),
-    ]);
-
-    if (!spotsSnap.exists || !navSnap.exists) {
-      throw new HttpsError('failed-precondition', 'Config documents missing in Firestore');
-    }
-
-    const spotsConfig = spotsSnap.data()!.spots as SpotConfig[];
-    const navConfig = navSnap.data() as NavigabilityConfig;
-
-    // Load water bodies for alplakesId resolution
-    const waterBodiesSnap = await db.collection('waterBodies').get();
-    const waterBodiesMap = new Map<string, { name: string; alplakesId?: string }>();
-    for (const wbDoc of waterBodiesSnap.docs) {
-      const data = wbDoc.data();
-      waterBodiesMap.set(wbDoc.id, { name: data.name, alplakesId: data.alplakesId });
-    }
-
-    // Step 1: Check if current data is still fresh (skip if forced)
-    if (!force) {
-      const existingSnap = await db.doc(FORECAST_DOC).get();
-      if (existingSnap.exists) {
-        const data = existingSnap.data()!;
-        const updatedAt = data.updatedAt as Timestamp;
-        if (Date.now() - updatedAt.toMillis() < DATA_TTL_MS) {
-          return { status: 'fresh', message: 'Data is still fresh' };
-        }
-      }
-    }
-
-    // Step 2: Acquire lock
-    const lockAcquired = await acquireLock();
-    if (!lockAcquired) {
-      // Another function is refreshing — wait and return existing data
-      await sleep(LOCK_WAIT_MS);
-      const snap = await db.doc(FORECAST_DOC).get();
-      if (snap.exists) {
-        return { status: 'waited', message: 'Another refresh was in progress' };
-      }
-      throw new HttpsError('unavailable', 'Refresh in progress, please retry');
-    }
-
-    try {
-      // Step 3: Fetch all data
-      const targetPointIds = new Set(spotsConfig.map((s) => s.pointId));
-
-      // Resolve alplakes keys from water bodies + backward compat
-      const alplakesKeysBySpot = new Map<string, string>();
-      for (const spot of spotsConfig) {
-        let alplakesKey: string | undefined;
-        if (spot.waterBodyId) {
-          alplakesKey = waterBodiesMap.get(spot.waterBodyId)?.alplakesId;
-        }
-        if (!alplakesKey && spot.alplakesKey) {
-          alplakesKey = spot.alplakesKey;
-        }
-        if (alplakesKey) {
-          alplakesKeysBySpot.set(spot.pointId, alplakesKey);
-        }
-      }
-      const uniqueLakes = [...new Set(alplakesKeysBySpot.values())];
-
-      const [meteoResult, waterTemps] = await Promise.all([
-        fetchAllMeteoData(targetPointIds),
-        fetchAllWaterTemps(uniqueLakes),
-      ]);
-
-      // Step 4: Build forecast for each spot
-      const spots: SpotForecast[] = spotsConfig.map((spot) =>
-        buildSpotForecast(spot, meteoResult.data, waterTemps, navConfig, waterBodiesMap, alplakesKeysBySpot.get(spot.pointId)),
-      );
-
-      // Step 5: Write to Firestore
-      await db.doc(FORECAST_DOC).set({
-        updatedAt: FieldValue.serverTimestamp(),
-        csvTimestamp: meteoResult.csvTimestamp,
-        spots,
-      });
+/**
+ * Scheduled function: scheduledRefreshForecast
+ * Keeps the forecast up to date even when nobody opens the app, so the
+ * morning notifications are built from the latest MétéoSuisse run.
+ * Runs every 10 minutes and refreshes once the stored data is older than
+ * `config/refresh.intervalMinutes`. Shares the lock with refreshForecast.
+ */
+export const scheduledRefreshForecast = onSchedule(
+  {
+    schedule: 'every 10 minutes',
+    timeZone: 'Europe/Zurich',
+    region: 'europe-west6',
+    timeoutSeconds: 60,
+    memory: '512MiB',
+  },
+  async () => {
+    const refreshConfig = await loadRefreshConfig();
+    if (!refreshConfig.enabled) return;
 
-      return { status: 'refreshed', message: 'Forecast data updated' };
-    } finally {
-      // Step 6: Release lock
-      await releaseLock();
+    const result = await runRefresh(false, refreshConfig.intervalMinutes * 60_000, 'scheduled');
+    if (result.status === 'refreshed') {
+      console.log('Scheduled refresh: forecast data updated');
     }
   },
 );
 
 /**
- * Build the SpotForecast object for a single spot.
+ * Read `config/refresh`, falling back to defaults for missing or invalid fields.
+ * Durations are clamped so a 0 or NaN never triggers a refresh on every call.
  */
-function buildSpotForecast(
-  spot: SpotConfig,
-  meteoData: MergedData,
-  waterTemps: Map<string, { current: number | null; depth: number }>,
-  navConfig: NavigabilityConfig,
-  waterBodiesMap: Map<string, { name: string; alplakesId?: string }>,
-  alplakesKeyForSpot: string | undefined,
-): SpotForecast {
-  const spotData = meteoData.get(spot.pointId);
-  const waterTemp = alplakesKeyForSpot
-    ? (waterTemps.get(alplakesKeyForSpot) ?? { current: null, depth: 1 })
-    : { current: null, depth: 1 };
-
-  // Group hourly data by local date
-  const dayMap = new Map<string, HourlyData[]>();
-
-  if (spotData) {
-    for (const [ts, values] of spotData) {
-      const utcDate = parseCsvTimestamp(ts);
-      const localDate = toZurichDateStr(utcDate, navConfig.timezone);
-      const localHour = toLocalHour(utcDate, navConfig.timezone);
-
-      const hourly: HourlyData = {
-        hour: localHour,
-        speed: Math.round(values.speed * 10) / 10,
-        gust: Math.round(values.gust * 10) / 10,
-        dir: Math.round(values.dir),
-        dirText: dirText(values.dir),
-        sun: Math.round(values.sun),
-      };
-
-      let dayHours = dayMap.get(localDate);
-      if (!dayHours) {
-        dayHours = [];
-        dayMap.set(localDate, dayHours);
-      }
-      dayHours.push(hourly);
-    }
+async function loadRefreshConfig(): Promise<RefreshConfig> {
+  const snap = await db.doc(REFRESH_CONFIG_DOC).get();
+  const data = snap.exists ? snap.data() as Partial<RefreshConfig> : {};
+  return {
+    enabled: data.enabled ?? DEFAULT_REFRESH_CONFIG.enabled,
+    intervalMinutes: clampRefreshMinutes(data.intervalMinutes, DEFAULT_REFRESH_CONFIG.intervalMinutes),
+    dataTtlMinutes: clampRefreshMinutes(data.dataTtlMinutes, DEFAULT_REFRESH_CONFIG.dataTtlMinutes),
+  };
+}
+
+/**
+ * A refresh duration within [REFRESH_MINUTES_MIN, REFRESH_MINUTES_MAX], or the
+ * fallback when it is not a number.
+ */
+function clampRefreshMinutes(value: unknown, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(REFRESH_MINUTES_MAX, Math.max(REFRESH_MINUTES_MIN, value));
+}
+
+/**
+ * Refresh the forecast unless the stored data is younger than `dataTtlMs`
+ * (or `force` is set). Used by both the callable and the scheduled refresh.
+ * Every refresh that runs is recorded in `forecasts/_status`.
+ */
+async function runRefresh(
+  force: boolean,
+  dataTtlMs: number,
+  trigger: RefreshAttempt['trigger'],
+): Promise<RefreshResult> {
+  // Step 0: Read config from Firestore
+  const [spotsSnap, navSnap] = await Promise.all([
+    db.doc('config/spots').get(),
+    db.doc('config/navigability').get(),
+  ]);
+
+  if (!spotsSnap.exists || !navSnap.exists) {
+    throw new HttpsError('failed-precondition', 'Config documents missing in Firestore');
   }
 
-  // Sort dates and build DayForecast objects
-  const sortedDates = [...dayMap.keys()].sort();
-  const days: DayForecast[] = sortedDates.map((date) => {
-    const hourly = dayMap.get(date)!.sort((a, b) => a.hour - b.hour);
+  const spotsConfig = spotsSnap.data()!.spots as SpotConfig[];
+  const navConfig = navSnap.data() as NavigabilityConfig;
 
-    // Filter to display window
-    const dayWindowHours = hourly.filter(
-      (h) => h.hour >= navConfig.dayStartHour && h.hour < navConfig.dayEndHour,
-    );
+  // Load water bodies for alplakesId resolution
+  const waterBodiesSnap = await db.collection('waterBodies').get();
+  const waterBodiesMap = new Map<string, { name: string; alplakesId?: string }>();
+  for (const wbDoc of waterBodiesSnap.docs) {
+    const data = wbDoc.data();
+    waterBodiesMap.set(wbDoc.id, { name: data.name, alplakesId: data.alplakesId });
+  }
+
+  // Step 1: Check if current data is still fresh (skip if forced)
+  const existing = await readForecastManifest(db);
+  if (!force && existing) {
+    const updatedAt = existing.updatedAt as Timestamp;
+    if (Date.now() - updatedAt.toMillis() < dataTtlMs) {
+      return { status: 'fresh', message: 'Data is still fresh' };
+    }
+  }
 
-    // Sum sunshine (minutes) for hours in the day window, convert to hours
-    const sunshineMinutes = dayWindowHours.reduce((sum, h) => sum + h.sun, 0);
-    const sunshine = Math.round((sunshineMinutes / 60) * 10) / 10;
+  // Keep the current run at hand to fill in parameters that fail to download
+  let previous: PreviousRun | undefined;
+  if (existing?.pointIds && Date.now() - existing.updatedAt.toMillis() < FALLBACK_MAX_AGE_MS) {
+    const previousSpots = await readForecastSpots(db, existing.pointIds);
+    previous = toPreviousRun(existing.csvTimestamp, previousSpots, navConfig.timezone);
+  }
 
+  // Step 2: Acquire lock (a lease renewed while the refresh runs)
+  const lock = await acquireLease(db, LOCK_DOC, LOCK_TTL_MS);
+  if (!lock.acquired) {
+    // Another instance is refreshing: tell the caller when to check again
     return {
-      date,
-      sunshine,
-      isNavigable: false,
-      slots: [],
-      hourly: dayWindowHours,
+      status: 'in-progress',
+      message: 'Another refresh is in progress',
+      retryAfterMs: Math.min(Math.max(lock.expiresAt - Date.now(), 1000), LOCK_RETRY_MAX_MS),
     };
-  });
+  }
+  const stopRenewal = keepLeaseAlive(db, lock.lease);
+  const startedAt = Date.now();
 
-  const waterBodyName = spot.waterBodyId
-    ? waterBodiesMap.get(spot.waterBodyId)?.name
-    : undefined;
+  try {
+    // A refresh may have completed between the freshness check and the lock
+    if (!force && existing) {
+      const latest = await readForecastManifest(db);
+      if (latest && latest.updatedAt.toMillis() > existing.updatedAt.toMillis()) {
+        return { status: 'fresh', message: 'Data was refreshed by another instance' };
+      }
+    }
 
-  return {
-    name: spot.name,
-    pointId: spot.pointId,
-    npa: spot.npa,
-    lat: spot.lat,
-    lon: spot.lon,
-    lake: spot.lake,
-    ...(waterBodyName && { waterBodyName }),
-    waterTemp,
-    days,
-  };
-}
+    // Step 3: Fetch all data (each spot from its forecast provider)
+    // Resolve alplakes keys from water bodies + backward compat
+    const alplakesKeysBySpot = new Map<string, string>();
+    for (const spot of spotsConfig) {
+      let alplakesKey: string | undefined;
+      if (spot.waterBodyId) {
+        alplakesKey = waterBodiesMap.get(spot.waterBodyId)?.alplakesId;
+      }
+      if (!alplakesKey && spot.alplakesKey) {
+        alplakesKey = spot.alplakesKey;
+      }
+      if (alplakesKey) {
+        alplakesKeysBySpot.set(spot.pointId, alplakesKey);
+      }
+    }
+    const uniqueLakes = [...new Set(alplakesKeysBySpot.values())];
 
-/**
- * Try to acquire a Firestore lock. Returns true if lock acquired.
- */
-async function acquireLock(): Promise<boolean> {
-  try {
-    const lockRef = db.doc(LOCK_DOC);
-    const lockSnap = await lockRef.get();
+    const [meteoResult, water, learnedCorrections, stations] = await Promise.all([
+      fetchAllForecasts(spotsConfig, previous),
+      fetchAllWaterTemps(uniqueLakes),
+      loadLearnedCorrections(db, spotsConfig),
+      loadStationSources(db, spotsConfig.map((s) => s.stationId)),
+    ]);
+    const fetchMs = Date.now() - startedAt;
+
+    // Step 4: Apply per-spot wind corrections (raw values are kept alongside)
+    const corrected = applyCorrections(meteoResult.data, spotsConfig, learnedCorrections);
+
+    // Step 5: Build forecast for each spot
+    const { paramStatus } = meteoResult;
+    const degradedParams = (Object.entries(paramStatus) as [ForecastParam, ParamStatus][])
+      .filter(([, st]) => st.status !== 'ok')
+      .map(([param]) => param);
+    if (degradedParams.length > 0) {
+      console.warn(`Refresh degraded, parameters not updated: ${degradedParams.join(', ')}`);
+    }
+    // Run each MétéoSuisse parameter actually comes from (fallbacks keep an older one)
+    const paramRuns: Partial<Record<ForecastParam, string>> = Object.fromEntries(
+      (Object.entries(paramStatus) as [ForecastParam, ParamStatus][])
+        .flatMap(([param, st]) => (st.csvTimestamp ? [[param, st.csvTimestamp]] : [])),
+    );
 
-    if (lockSnap.exists) {
-      const lockData = lockSnap.data()!;
-      const lockedAt = lockData.lockedAt as Timestamp;
+    // Upstreams that failed without stopping the refresh, for forecasts/_status
+    const failures: UpstreamFailure[] = [...meteoResult.failures];
+    if (degradedParams.length > 0) {
+      failures.push({
+        upstream: 'meteoswiss',
+        partial: true,
+        // Parameters taken from an older CSV run have no error, only that run
+        error: degradedParams.map((param) => {
+          const st = paramStatus[param];
+          return `${param}: ${st?.error ?? (st?.csvTimestamp ? `older run ${st.csvTimestamp}` : 'unknown error')}`;
+        }).join('; '),
+      });
+    }
+    if (water.failures.size > 0) {
+      console.warn(`Alplakes failed for ${[...water.failures.keys()].join(', ')}`);
+      failures.push({
+        upstream: 'alplakes',
+        ...(water.failures.size < uniqueLakes.length && { partial: true }),
+        error: [...water.failures].map(([lake, error]) => `${lake}: ${error}`).join('; '),
+      });
+    }
 
-      if (Date.now() - lockedAt.toMillis() < LOCK_TTL_MS) {
-        // Lock is still valid — another function is working
-        return false;
+    const spots: SpotForecast[] = spotsConfig.map((spot) => {
+      const alplakesKey = alplakesKeysBySpot.get(spot.pointId);
+      const isMeteoSwiss = (spot.provider ?? 'meteoswiss') === 'meteoswiss';
+      const forecast = buildSpotForecast(spot, corrected.data, water.temps, navConfig, waterBodiesMap, alplakesKey, corrected.modes.get(spot.pointId));
+      // Parameter status only concerns MétéoSuisse spots
+      if (isMeteoSwiss && degradedParams.length > 0) {
+        forecast.degradedParams = degradedParams;
       }
+      forecast.provenance = buildProvenance(spot, {
+        point: meteoResult.points.get(spot.pointId),
+        // Grid sources don't expose their runs; paramStatus only describes MétéoSuisse
+        runs: isMeteoSwiss ? paramRuns : undefined,
+        alplakesKey,
+        waterTemp: alplakesKey ? water.temps.get(alplakesKey) : undefined,
+        station: stations.get(spot.stationId),
+      });
+      return forecast;
+    });
 
-      // Lock is stale — delete it and try again
-      await lockRef.delete();
+    // Step 6: Write to Firestore (manifest + one document per spot), only while
+    // still holding the lock so an expired refresh never overwrites a newer one
+    if (!(await renewLease(db, lock.lease))) {
+      throw new HttpsError('aborted', 'Refresh lock lost, results discarded');
     }
+    await writeForecast(db, meteoResult.csvTimestamp, paramStatus, spots);
+
+    // Step 7: Archive this run so previous runs stay available
+    try {
+      await archiveForecastRun(db, meteoResult.csvTimestamp, spots);
+    } catch (err) {
+      console.error('Failed to archive forecast run:', err);
+    }
+
+    const timings = { totalMs: Date.now() - startedAt, fetchMs, csv: meteoResult.timings };
+    console.log(
+      `Refresh done in ${timings.totalMs}ms (fetch ${fetchMs}ms): ` +
+      timings.csv.map((t) => `${t.param} ${Math.round(t.bytes / 1024)}KiB/${t.lines} lines ${t.ms}ms`).join(', '),
+    );
+
+    await saveAttempt({
+      at: Timestamp.fromMillis(startedAt),
+      trigger,
+      outcome: failures.length > 0 ? 'degraded' : 'success',
+      durationMs: timings.totalMs,
+      csvTimestamp: meteoResult.csvTimestamp,
+      failures,
+    });
 
-    // Try to create the lock
-    await lockRef.create({
-      lockedAt: FieldValue.serverTimestamp(),
+    return { status: 'refreshed', message: 'Forecast data updated', timings };
+  } catch (err) {
+    await saveAttempt({
+      at: Timestamp.fromMillis(startedAt),
+      trigger,
+      outcome: 'failed',
+      durationMs: Date.now() - startedAt,
+      failures: err instanceof UpstreamError ? [{ upstream: err.upstream, error: err.message }] : [],
+      error: err instanceof Error ? err.message : String(err),
     });
-    return true;
-  } catch {
-    // create() throws if doc already exists (race condition)
-    return false;
+    throw err;
+  } finally {
+    // Step 8: Release lock (only if still ours)
+    stopRenewal();
+    await releaseLease(db, lock.lease).catch((err) => console.error('Failed to release refresh lock:', err));
   }
 }
 
 /**
- * Release the Firestore lock.
+ * Record a refresh attempt; failing to write the status never fails the refresh.
  */
-async function releaseLock(): Promise<void> {
+async function saveAttempt(attempt: RefreshAttempt): Promise<void> {
   try {
-    await db.doc(LOCK_DOC).delete();
-  } catch {
-    // Ignore errors during lock release
+    await recordRefreshAttempt(db, attempt);
+  } catch (err) {
+    console.error('Failed to record refresh status:', err);
   }
 }
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
@@ -0,0 +1,94 @@
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Time-limited lock stored in a Firestore document. Every change goes through
+ * a transaction, so two instances can never both take an expired lease, and
+ * only the owner can renew or release it.
+ */
+export interface Lease {
+  path: string;
+  /** Random ID of the holder, stored in the lease document. */
+  owner: string;
+  ttlMs: number;
+}
+
+/** Lease document as stored in Firestore. */
+interface LeaseDocument {
+  owner: string;
+  acquiredAt: FirebaseFirestore.Timestamp;
+  expiresAt: FirebaseFirestore.Timestamp;
+}
+
+/** Outcome of an acquisition attempt: the lease, or when the current one expires. */
+export type LeaseResult =
+  | { acquired: true; lease: Lease }
+  | { acquired: false; expiresAt: number };
+
+/**
+ * Take the lease at `path` unless another owner holds an unexpired one.
+ */
+export async function acquireLease(
+  db: FirebaseFirestore.Firestore,
+  path: string,
+  ttlMs: number,
+): Promise<LeaseResult> {
+  const ref = db.doc(path);
+  const owner = randomUUID();
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (snap.exists) {
+      const current = snap.data() as Partial<LeaseDocument>;
+      const expiresAt = current.expiresAt?.toMillis() ?? 0;
+      if (expiresAt > Date.now()) return { acquired: false, expiresAt };
+    }
+    tx.set(ref, {
+      owner,
+      acquiredAt: FieldValue.serverTimestamp(),
+      expiresAt: Timestamp.fromMillis(Date.now() + ttlMs),
+    });
+    return { acquired: true, lease: { path, owner, ttlMs } };
+  });
+}
+
+/**
+ * Extend the lease by its TTL. Returns false when it was lost (expired and
+ * taken by another owner, or deleted).
+ */
+export async function renewLease(db: FirebaseFirestore.Firestore, lease: Lease): Promise<boolean> {
+  const ref = db.doc(lease.path);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists || (snap.data() as LeaseDocument).owner !== lease.owner) return false;
+    tx.update(ref, { expiresAt: Timestamp.fromMillis(Date.now() + lease.ttlMs) });
+    return true;
+  });
+}
+
+/**
+ * Delete the lease if it is still ours. Returns false when another owner holds it.
+ */
+export async function releaseLease(db: FirebaseFirestore.Firestore, lease: Lease): Promise<boolean> {
+  const ref = db.doc(lease.path);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return true;
+    if ((snap.data() as LeaseDocument).owner !== lease.owner) return false;
+    tx.delete(ref);
+    return true;
+  });
+}
+
+/**
+ * Renew the lease every third of its TTL until the returned function is called.
+ * A failed renewal is logged; callers check `renewLease` before committing work.
+ */
+export function keepLeaseAlive(db: FirebaseFirestore.Firestore, lease: Lease): () => void {
+  const timer = setInterval(() => {
+    renewLease(db, lease)
+      .then((held) => { if (!held) console.warn(`Lease ${lease.path} lost by ${lease.owner}`); })
+      .catch((err) => console.error(`Failed to renew lease ${lease.path}:`, err));
+  }, lease.ttlMs / 3);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,45 @@
+import { FieldValue } from 'firebase-admin/firestore';
+
+/**
+ * Reference data that rarely changes (SMN stations, forecast point locations)
+ * is kept in a `config/` document and downloaded again once it is a day old,
+ * instead of on every refresh.
+ */
+const METADATA_TTL_MS = 24 * 3600_000;
+
+interface MetadataDocument<T> {
+  updatedAt: FirebaseFirestore.Timestamp;
+  entries: Record<string, T>;
+}
+
+/**
+ * Entries cached in the document at `path`. They are downloaded again when
+ * older than a day or when `isComplete` rejects them; if that download fails,
+ * the cached entries (possibly stale, or none) are returned. Never throws.
+ */
+export async function loadCachedMetadata<T>(
+  db: FirebaseFirestore.Firestore,
+  path: string,
+  download: () => Promise<Record<string, T>>,
+  isComplete: (entries: Record<string, T>) => boolean = () => true,
+): Promise<Record<string, T>> {
+  let cached: MetadataDocument<T> | undefined;
+  try {
+    const snap = await db.doc(path).get();
+    cached = snap.exists ? snap.data() as MetadataDocument<T> : undefined;
+  } catch (err) {
+    console.warn(`Failed to read ${path}:`, err instanceof Error ? err.message : err);
+  }
+
+  const fresh = cached?.updatedAt && Date.now() - cached.updatedAt.toMillis() < METADATA_TTL_MS;
+  if (cached && fresh && isComplete(cached.entries)) return cached.entries;
+
+  try {
+    const entries = await download();
+    await db.doc(path).set({ updatedAt: FieldValue.serverTimestamp(), entries });
+    return entries;
+  } catch (err) {
+    console.warn(`Failed to update ${path}, using the cached copy:`, err instanceof Error ? err.message : err);
+    return cached?.entries ?? {};
+  }
+}
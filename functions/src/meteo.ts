@@ -1,116 +1,347 @@
-import { buildMeteoUrl, getCsvCandidateDates } from './utils.js';
-import type { MeteoParam } from './types.js';
+import { defineString } from 'firebase-functions/params';
+import { getFirestore } from 'firebase-admin/firestore';
+import { loadCachedMetadata } from './metadataCache.js';
+import { buildMeteoUrl, getCsvCandidateDates, decodePictogram, formatCsvTimestamp, fromLocalDateHour } from './utils.js';
+import type { ForecastProvider } from './providers.js';
+import type { MeteoParam, ForecastParam, ForecastPoint, ParamStatus, SpotForecast } from './types.js';
 
-const METEO_PARAMS: { key: 'speed' | 'gust' | 'dir' | 'sun'; param: MeteoParam }[] = [
+/** Location of the forecast points of the configured spots. */
+const FORECAST_POINTS_DOC = 'config/forecastPoints';
+
+const METEOSWISS_BASE_URL = defineString('METEOSWISS_BASE_URL', {
+  default: 'https://data.geo.admin.ch',
+});
+
+const METEO_PARAMS: { key: ForecastParam; param: MeteoParam }[] = [
   { key: 'speed', param: 'fu3010h0' },
   { key: 'gust', param: 'fu3010h1' },
   { key: 'dir', param: 'dkl010h0' },
   { key: 'sun', param: 'sre000h0' },
+  { key: 'temp', param: 'tre200h0' },
+  { key: 'precip', param: 'rre150h0' },
+  { key: 'precipProb', param: 'rp0003i0' },
+  { key: 'pictogram', param: 'jww003i0' },
 ];
 
+/** 3-hourly params: each value is held for the following hours until the next one. */
+const THREE_HOURLY_KEYS: ForecastParam[] = ['precipProb', 'pictogram'];
+
+/** Without these the forecast is useless: hours lacking one of them are dropped. */
+const REQUIRED_KEYS: ForecastParam[] = ['speed', 'gust', 'dir'];
+
 /**
  * Parsed data from a single CSV: Map<pointId, Map<timestamp, value>>
  */
 type ParamData = Map<string, Map<string, number>>;
 
 /**
- * Merged data for all params: Map<pointId, Map<timestamp, { speed, gust, dir, sun }>>
+ * Values for one point and timestamp. `raw` is only set by the correction layer.
+ */
+export interface MeteoValues {
+  speed: number;
+  gust: number;
+  dir: number;
+  sun?: number;
+  temp?: number;
+  precip?: number;
+  precipProb?: number;
+  /** MétéoSuisse weather pictogram code (1–42 day, 101–142 night). */
+  pictogram?: number;
+  cloud?: number;
+  thunderstorm?: boolean;
+  raw?: { speed: number; gust: number };
+}
+
+/**
+ * Merged data for all params: Map<pointId, Map<timestamp, MeteoValues>>
  */
-export type MergedData = Map<string, Map<string, { speed: number; gust: number; dir: number; sun: number }>>;
+export type MergedData = Map<string, Map<string, MeteoValues>>;
 
 /**
- * Fetch a single CSV with retry on 404 (tries now-2h, now-3h, now-4h).
- * Returns the CSV text and the UTC date that worked.
+ * Values of the previous published run, used in place of a parameter whose CSV failed.
  */
-async function fetchCsvWithRetry(param: MeteoParam): Promise<{ text: string; usedDate: Date }> {
-  const candidates = getCsvCandidateDates();
+export interface PreviousRun {
+  csvTimestamp: string;
+  data: MergedData;
+}
 
+/**
+ * Rebuild per-timestamp values from a published forecast, using the
+ * uncorrected wind when a correction was applied. Hours are placed by their
+ * UTC time; the local date and hour only serve forecasts stored before it,
+ * where the repeated autumn hour cannot be told apart.
+ */
+export function toPreviousRun(
+  csvTimestamp: string,
+  spots: SpotForecast[],
+  timezone: string,
+): PreviousRun {
+  const data: MergedData = new Map();
+  for (const spot of spots) {
+    const spotData = new Map<string, MeteoValues>();
+    for (const day of spot.days) {
+      for (const h of day.hourly) {
+        const ts = formatCsvTimestamp(h.time !== undefined ? new Date(h.time) : fromLocalDateHour(day.date, h.hour, timezone));
+        spotData.set(ts, {
+          speed: h.raw?.speed ?? h.speed,
+          gust: h.raw?.gust ?? h.gust,
+          dir: h.dir,
+          sun: h.sun,
+          temp: h.temp,
+          precip: h.precip,
+          precipProb: h.precipProb,
+          cloud: h.cloud,
+          thunderstorm: h.thunderstorm,
+        });
+      }
+    }
+    data.set(spot.pointId, spotData);
+  }
+  return { csvTimestamp, data };
+}
+
+/**
+ * Download and parse timing for one CSV parameter.
+ */
+export interface ParseTiming {
+  param: string;
+  bytes: number;
+  lines: number;
+  ms: number;
+}
+
+/**
+ * Check whether a CSV exists for a parameter and run, without downloading it.
+ */
+async function csvExists(param: MeteoParam, runDate: Date): Promise<boolean> {
+  try {
+    const response = await fetch(buildMeteoUrl(param, runDate, METEOSWISS_BASE_URL.value()), { method: 'HEAD' });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the newest candidate run for which every required parameter is published.
+ * Returns it with the optional parameters it lacks, or null when no candidate
+ * has all the required ones.
+ */
+async function findCommonRun(candidates: Date[]): Promise<{ run: Date; absent: Set<ForecastParam> } | null> {
+  for (const candidateDate of candidates) {
+    const available = await Promise.all(METEO_PARAMS.map(({ param }) => csvExists(param, candidateDate)));
+    const absent = new Set(METEO_PARAMS.filter((_, i) => !available[i]).map(({ key }) => key));
+    if (REQUIRED_KEYS.every((k) => !absent.has(k))) return { run: candidateDate, absent };
+  }
+  return null;
+}
+
+/**
+ * Fetch a single CSV, trying the candidate runs in order on 404,
+ * parsing it while it downloads. Returns the parsed data and the UTC date that worked.
+ */
+async function fetchCsvWithRetry(
+  param: MeteoParam,
+  targetPointIds: Set<string>,
+  candidates: Date[],
+): Promise<{ parsed: ParamData; usedDate: Date; timing: ParseTiming }> {
   for (const candidateDate of candidates) {
-    const url = buildMeteoUrl(param, candidateDate);
+    const url = buildMeteoUrl(param, candidateDate, METEOSWISS_BASE_URL.value());
+    const startedAt = Date.now();
     const response = await fetch(url);
-    if (response.ok) {
-      const buffer = await response.arrayBuffer();
-      // CSV is Latin1 encoded — decode via Node.js Buffer
-      const text = Buffer.from(buffer).toString('latin1');
-      return { text, usedDate: candidateDate };
+    if (response.ok && response.body) {
+      const { parsed, bytes, lines } = await parseCsvStream(response.body, targetPointIds);
+      return {
+        parsed,
+        usedDate: candidateDate,
+        timing: { param, bytes, lines, ms: Date.now() - startedAt },
+      };
     }
+    await response.body?.cancel();
     if (response.status !== 404) {
       throw new Error(`MeteoSuisse CSV fetch failed for ${param}: HTTP ${response.status}`);
     }
   }
 
-  throw new Error(`MeteoSuisse CSV not available for ${param} (tried 3 timestamps)`);
+  throw new Error(`MeteoSuisse CSV not available for ${param} (tried ${candidates.length} timestamps)`);
 }
 
 /**
- * Parse a single CSV text, filtering only the given point IDs.
- * Returns Map<pointId, Map<timestamp, value>>.
+ * Parse a CSV response body as it arrives, keeping only the given point IDs.
+ * Only the current chunk and one partial line are held in memory.
+ * Returns Map<pointId, Map<timestamp, value>> plus byte and line counts.
  */
-function parseCsv(csvText: string, targetPointIds: Set<string>): ParamData {
-  const result: ParamData = new Map();
-  const lines = csvText.split('\n');
+async function parseCsvStream(
+  body: ReadableStream<Uint8Array>,
+  targetPointIds: Set<string>,
+): Promise<{ parsed: ParamData; bytes: number; lines: number }> {
+  const parsed: ParamData = new Map();
+  const reader = body.getReader();
+  let remainder = '';
+  let bytes = 0;
+  let lines = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
 
-  // Skip header (line 0)
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line) continue;
+    // CSV is Latin1 encoded — one byte per char, so chunks can be decoded independently
+    const text = remainder + Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('latin1');
+    let start = 0;
+    let end = text.indexOf('\n');
+    while (end !== -1) {
+      // Skip header (line 0)
+      if (lines > 0) parseLine(text.substring(start, end), targetPointIds, parsed);
+      lines++;
+      start = end + 1;
+      end = text.indexOf('\n', start);
+    }
+    remainder = text.substring(start);
+  }
 
-    // Fast check: extract point_id before first semicolon
-    const s1 = line.indexOf(';');
-    if (s1 === -1) continue;
-    const pointId = line.substring(0, s1);
-    if (!targetPointIds.has(pointId)) continue;
+  if (remainder) {
+    if (lines > 0) parseLine(remainder, targetPointIds, parsed);
+    lines++;
+  }
 
-    // Parse remaining columns
-    const s2 = line.indexOf(';', s1 + 1);
-    const s3 = line.indexOf(';', s2 + 1);
-    const timestamp = line.substring(s2 + 1, s3);
-    const value = parseFloat(line.substring(s3 + 1)) || 0;
+  return { parsed, bytes, lines };
+}
 
-    let spotMap = result.get(pointId);
-    if (!spotMap) {
-      spotMap = new Map();
-      result.set(pointId, spotMap);
+/**
+ * Parse a single CSV line into `result` if its point ID is one we want.
+ */
+function parseLine(line: string, targetPointIds: Set<string>, result: ParamData): void {
+  // Fast check: extract point_id before first semicolon
+  const s1 = line.indexOf(';');
+  if (s1 === -1) return;
+  const pointId = line.substring(0, s1);
+  if (!targetPointIds.has(pointId)) return;
+
+  // Parse remaining columns
+  const s2 = line.indexOf(';', s1 + 1);
+  const s3 = line.indexOf(';', s2 + 1);
+  const timestamp = line.substring(s2 + 1, s3);
+  const value = parseFloat(line.substring(s3 + 1)) || 0;
+
+  let spotMap = result.get(pointId);
+  if (!spotMap) {
+    spotMap = new Map();
+    result.set(pointId, spotMap);
+  }
+  spotMap.set(timestamp, value);
+}
+
+/**
+ * Fill the hours between two 3-hourly values with the previous value,
+ * so every hourly entry carries precipitation probability and pictogram,
+ * then decode the pictogram into cloud cover and thunderstorm risk.
+ */
+function holdThreeHourlyValues(spotMerged: Map<string, MeteoValues>): void {
+  const timestamps = [...spotMerged.keys()].sort();
+  for (const key of THREE_HOURLY_KEYS) {
+    let last: number | undefined;
+    for (const ts of timestamps) {
+      const entry = spotMerged.get(ts)!;
+      if (entry[key] !== undefined) last = entry[key];
+      else if (last !== undefined) entry[key] = last;
     }
-    spotMap.set(timestamp, value);
   }
 
-  return result;
+  for (const entry of spotMerged.values()) {
+    if (entry.pictogram === undefined) continue;
+    const { cloud, thunderstorm } = decodePictogram(entry.pictogram);
+    if (cloud !== undefined) entry.cloud = cloud;
+    if (thunderstorm) entry.thunderstorm = true;
+  }
+}
+
+/**
+ * Copy one parameter from the previous run into the merged entries.
+ * The pictogram is not kept in published runs, so its decoded fields are copied instead.
+ */
+function fillFromPrevious(
+  merged: Map<string, Map<string, Partial<MeteoValues>>>,
+  previous: MergedData,
+  key: ForecastParam,
+): void {
+  for (const [pointId, previousSpot] of previous) {
+    const spotMerged = merged.get(pointId);
+    if (!spotMerged) continue;
+    for (const [ts, values] of previousSpot) {
+      let entry = spotMerged.get(ts);
+      if (!entry) {
+        entry = {};
+        spotMerged.set(ts, entry);
+      }
+      if (key === 'pictogram') {
+        if (values.cloud !== undefined) entry.cloud = values.cloud;
+        if (values.thunderstorm) entry.thunderstorm = true;
+      } else if (values[key] !== undefined) {
+        entry[key] = values[key];
+      }
+    }
+  }
 }
 
 /**
- * Fetch and parse all 4 MétéoSuisse CSV parameters in parallel.
- * Returns merged data per spot per timestamp, and the CSV timestamp used.
+ * Fetch and parse all MétéoSuisse CSV parameters in parallel.
+ * Parameters not yet published for the common run come from an older run; a failed
+ * parameter is taken from `previous` when it covers the same points, otherwise left
+ * out. Only a missing wind parameter fails the whole fetch.
+ * Returns merged data per spot per timestamp, the CSV timestamp used and a status
+ * (with the run actually used) per parameter.
  */
 export async function fetchAllMeteoData(
   targetPointIds: Set<string>,
-): Promise<{ data: MergedData; csvTimestamp: string }> {
-  // Fetch all 4 CSVs in parallel
-  const results = await Promise.all(
-    METEO_PARAMS.map(async ({ key, param }) => {
-      const { text, usedDate } = await fetchCsvWithRetry(param);
-      const parsed = parseCsv(text, targetPointIds);
-      return { key, parsed, usedDate };
-    }),
+  previous?: PreviousRun,
+): Promise<{
+  data: MergedData;
+  csvTimestamp: string;
+  timings: ParseTiming[];
+  paramStatus: Partial<Record<ForecastParam, ParamStatus>>;
+}> {
+  // Settle on the newest run published for the wind parameters. The others it lacks
+  // come from an older run; without a common run, each parameter uses its own newest.
+  const allCandidates = getCsvCandidateDates();
+  const common = await findCommonRun(allCandidates);
+  const commonRun = common?.run;
+  if (!common) {
+    console.warn('MeteoSuisse: no run published for every wind parameter, using the newest run of each');
+  } else if (common.absent.size > 0) {
+    console.warn(`MeteoSuisse: ${[...common.absent].join(', ')} not yet published for the common run, using an older one`);
+  }
+  const candidatesFor = (key: ForecastParam): Date[] => {
+    if (!common) return allCandidates;
+    const runTime = common.run.getTime();
+    return allCandidates.filter((d) => (common.absent.has(key) ? d.getTime() < runTime : d.getTime() <= runTime));
+  };
+
+  // Fetch and parse all CSVs in parallel, streaming; one failure doesn't stop the others
+  const settled = await Promise.allSettled(
+    METEO_PARAMS.map(({ key, param }) => fetchCsvWithRetry(param, targetPointIds, candidatesFor(key))),
   );
 
-  // Use the first CSV's timestamp as the canonical one
-  const csvTimestamp = results[0].usedDate;
+  const fulfilled = settled.flatMap((r, i) =>
+    r.status === 'fulfilled' ? [{ key: METEO_PARAMS[i].key, ...r.value }] : []);
+  if (fulfilled.length === 0) {
+    throw new Error('MeteoSuisse: every CSV parameter failed');
+  }
 
-  // Merge: for each pointId, for each timestamp, combine all 4 values
-  const merged: MergedData = new Map();
+  // The common run is the canonical timestamp; otherwise the first successful CSV's
+  const csvTimestamp = formatCsvTimestamp(commonRun ?? fulfilled[0].usedDate);
 
-  for (const { key, parsed } of results) {
+  // Merge: for each pointId, for each timestamp, combine all values
+  const merged = new Map<string, Map<string, Partial<MeteoValues>>>();
+  for (const pointId of targetPointIds) merged.set(pointId, new Map());
+
+  for (const { key, parsed } of fulfilled) {
     for (const [pointId, timestampMap] of parsed) {
-      let spotMerged = merged.get(pointId);
-      if (!spotMerged) {
-        spotMerged = new Map();
-        merged.set(pointId, spotMerged);
-      }
+      const spotMerged = merged.get(pointId)!;
       for (const [ts, value] of timestampMap) {
         let entry = spotMerged.get(ts);
         if (!entry) {
-          entry = { speed: 0, gust: 0, dir: 0, sun: 0 };
+          entry = {};
           spotMerged.set(ts, entry);
         }
         entry[key] = value;
@@ -118,8 +349,117 @@ export async function fetchAllMeteoData(
     }
   }
 
+  // Parameters from an older CSV run are a fallback; failed ones reuse the previous
+  // refresh when it has values for our points
+  const paramStatus: Partial<Record<ForecastParam, ParamStatus>> = {};
+  settled.forEach((result, i) => {
+    const { key, param } = METEO_PARAMS[i];
+    if (result.status === 'fulfilled') {
+      const { usedDate } = result.value;
+      const status = !commonRun || usedDate.getTime() === commonRun.getTime() ? 'ok' : 'fallback';
+      paramStatus[key] = { status, csvTimestamp: formatCsvTimestamp(usedDate) };
+      return;
+    }
+
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    console.error(`MeteoSuisse ${param} failed:`, error);
+    const compatible = previous && [...targetPointIds].some((id) => previous.data.has(id));
+    if (compatible) {
+      fillFromPrevious(merged, previous.data, key);
+      paramStatus[key] = { status: 'fallback', csvTimestamp: previous.csvTimestamp, error };
+    } else {
+      paramStatus[key] = { status: 'missing', error };
+    }
+  });
+
+  const missingRequired = REQUIRED_KEYS.filter((k) => paramStatus[k]?.status === 'missing');
+  if (missingRequired.length > 0) {
+    throw new Error(`MeteoSuisse: no data for required parameters ${missingRequired.join(', ')}`);
+  }
+
+  // Drop hours lacking a wind value (e.g. beyond the previous run's horizon)
+  const data: MergedData = new Map();
+  for (const [pointId, spotMerged] of merged) {
+    const complete = new Map<string, MeteoValues>();
+    for (const [ts, entry] of spotMerged) {
+      if (REQUIRED_KEYS.some((k) => entry[k] === undefined)) continue;
+      complete.set(ts, entry as MeteoValues);
+    }
+    holdThreeHourlyValues(complete);
+    if (complete.size > 0) data.set(pointId, complete);
+  }
+
   return {
-    data: merged,
-    csvTimestamp: `${csvTimestamp.getUTCFullYear()}${String(csvTimestamp.getUTCMonth() + 1).padStart(2, '0')}${String(csvTimestamp.getUTCDate()).padStart(2, '0')}${String(csvTimestamp.getUTCHours()).padStart(2, '0')}00`,
+    data,
+    timings: fulfilled.map((r) => r.timing),
+    csvTimestamp,
+    paramStatus,
   };
 }
+
+/**
+ * Location and name of the given local forecast points, from the point metadata
+ * CSV. Columns are found by header name. Throws on failure.
+ */
+async function downloadForecastPoints(targetPointIds: Set<string>): Promise<Record<string, ForecastPoint>> {
+  const url = `${METEOSWISS_BASE_URL.value()}/ch.meteoschweiz.ogd-local-forecasting/ogd-local-forecasting_meta_point.csv`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  // Latin1 like the forecast CSVs
+  const text = Buffer.from(await response.arrayBuffer()).toString('latin1');
+  const [header, ...lines] = text.split(/\r?\n/);
+  const unquote = (c: string) => c.trim().replace(/^"|"$/g, '');
+  const columns = header.split(';').map(unquote);
+  const idCol = columns.indexOf('point_id');
+  const latCol = columns.indexOf('point_coordinates_wgs84_lat');
+  const lonCol = columns.indexOf('point_coordinates_wgs84_lon');
+  const nameCol = columns.indexOf('point_name');
+  if (idCol === -1 || latCol === -1 || lonCol === -1) throw new Error('unexpected columns');
+
+  const points: Record<string, ForecastPoint> = {};
+  for (const line of lines) {
+    const cols = line.split(';').map(unquote);
+    if (!targetPointIds.has(cols[idCol])) continue;
+    const lat = parseFloat(cols[latCol]);
+    const lon = parseFloat(cols[lonCol]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    const name = nameCol !== -1 ? cols[nameCol] : '';
+    points[cols[idCol]] = { lat, lon, ...(name && { name }) };
+  }
+  return points;
+}
+
+/**
+ * Forecast point locations, cached in `config/forecastPoints` and downloaded
+ * again once a day or when a spot's point is missing. Empty on failure: the
+ * forecast doesn't need it.
+ */
+async function loadForecastPoints(targetPointIds: Set<string>): Promise<Map<string, ForecastPoint>> {
+  const cached = await loadCachedMetadata(
+    getFirestore(),
+    FORECAST_POINTS_DOC,
+    () => downloadForecastPoints(targetPointIds),
+    (points) => [...targetPointIds].every((id) => Object.hasOwn(points, id)),
+  );
+  const points = new Map<string, ForecastPoint>();
+  for (const id of targetPointIds) {
+    if (Object.hasOwn(cached, id)) points.set(id, cached[id]);
+  }
+  return points;
+}
+
+/**
+ * MétéoSuisse local-forecast provider: point CSVs keyed by `pointId` (NPA + "00").
+ */
+export const meteoSwissProvider: ForecastProvider = {
+  id: 'meteoswiss',
+  fetch: async (spots, previous) => {
+    const pointIds = new Set(spots.map((s) => s.pointId));
+    const [result, points] = await Promise.all([
+      fetchAllMeteoData(pointIds, previous),
+      loadForecastPoints(pointIds),
+    ]);
+    return { ...result, points };
+  },
+};
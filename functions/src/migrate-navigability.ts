@@ -0,0 +1,53 @@
+/**
+ * One-time migration: windSpeedMax used to be informational with a default of
+ * 20 km/h. Since it is enforced (hours above it are "overpowered"), a stored 20
+ * would make every hour above 20 km/h non-navigable. Raises it to the new
+ * default of 40 km/h; any other value was set on purpose and is kept.
+ *
+ * Setup: ensure functions/serviceAccountKey.json exists
+ * Run:   cd functions && npm run migrate:navigability
+ *
+ * Idempotent: safe to run multiple times.
+ */
+import { initializeApp, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+const keyPath = resolve(__dirname, '..', 'serviceAccountKey.json');
+
+let serviceAccount: Record<string, string>;
+try {
+  serviceAccount = JSON.parse(readFileSync(keyPath, 'utf-8'));
+} catch {
+  console.error('serviceAccountKey.json not found at:', keyPath);
+  process.exit(1);
+}
+
+initializeApp({
+  credential: cert(serviceAccount),
+  projectId: 'windspotter-ba2d2',
+});
+const db = getFirestore();
+
+const LEGACY_WIND_SPEED_MAX = 20;
+const DEFAULT_WIND_SPEED_MAX = 40;
+
+async function migrate() {
+  console.log('Starting navigability migration...');
+  const ref = db.doc('config/navigability');
+  const snap = await ref.get();
+
+  if (!snap.exists) {
+    console.log('  SKIP config/navigability (missing, run npm run seed)');
+  } else if (snap.data()!.windSpeedMax === LEGACY_WIND_SPEED_MAX) {
+    await ref.update({ windSpeedMax: DEFAULT_WIND_SPEED_MAX });
+    console.log(`  UPDATED config/navigability: windSpeedMax ${LEGACY_WIND_SPEED_MAX} -> ${DEFAULT_WIND_SPEED_MAX}`);
+  } else {
+    console.log(`  SKIP config/navigability (windSpeedMax is ${snap.data()!.windSpeedMax})`);
+  }
+
+  console.log('Migration complete!');
+}
+
+migrate().catch(console.error);
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { calculateEquipmentSlots, calculateSlots } from './navigability.js';
+import { compileRule } from './rule.js';
+import { toLocalHour, utcOffsetMinutes } from './utils.js';
+import type { EquipmentProfile, HourlyData, NavigabilityConfig, WindSectors } from './types.js';
+
+const TZ = 'Europe/Zurich';
+
+const NAV: NavigabilityConfig = {
+  windSpeedMin: 10,
+  windSpeedMax: 40,
+  gustMin: 10,
+  minConsecutiveHours: 2,
+  dayStartHour: 0,
+  dayEndHour: 24,
+  timezone: TZ,
+};
+
+/** Consecutive UTC hours from `fromUtc`, the i-th with a mean wind of `speedAt(i)` km/h. */
+function hours(fromUtc: string, count: number, speedAt: (i: number) => number = () => 15): HourlyData[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(Date.parse(fromUtc) + i * 3600_000);
+    const speed = speedAt(i);
+    return {
+      hour: toLocalHour(date, TZ),
+      time: date.getTime(),
+      utcOffset: utcOffsetMinutes(date, TZ),
+      speed,
+      gust: speed + 5,
+      dir: 225,
+      dirText: 'SO',
+      sun: 0,
+    };
+  });
+}
+
+describe('calculateSlots on DST days', () => {
+  it('counts the real hours of a slot spanning the skipped March hour', () => {
+    // Local 1h (CET) then 3h, 4h (CEST): 3 real hours
+    const slots = calculateSlots(hours('2026-03-29T00:00:00Z', 3), NAV);
+    expect(slots).toHaveLength(1);
+    expect(slots[0]).toMatchObject({ start: 1, end: 5, hours: 3 });
+  });
+
+  it('counts the repeated October hour twice', () => {
+    // Local 1h, 2h (CEST), 2h (CET), 3h: 4 real hours
+    const slots = calculateSlots(hours('2026-10-24T23:00:00Z', 4), NAV);
+    expect(slots).toHaveLength(1);
+    expect(slots[0]).toMatchObject({ start: 1, end: 4, hours: 4 });
+  });
+
+  it('splits a run when the second 2h of October is too light', () => {
+    const slots = calculateSlots(hours('2026-10-24T22:00:00Z', 6, (i) => (i === 3 ? 5 : 15)), NAV);
+    // 0h, 1h, 2h (CEST) | 2h (CET) too light | 3h, 4h
+    expect(slots.map((s) => [s.start, s.end, s.hours])).toEqual([[0, 3, 3], [3, 5, 2]]);
+  });
+});
+
+describe('slot direction fit', () => {
+  const day = (dir: number) => hours('2026-06-15T08:00:00Z', 4).map((h) => ({ ...h, dir }));
+  const score = (dir: number, sectors: WindSectors) => calculateSlots(day(dir), NAV, { sectors })[0].score ?? 0;
+
+  it('prefers the centre of the good sectors', () => {
+    // Good sectors SSW–W (9–12), centred on 236°
+    const sectors: WindSectors = { good: [9, 10, 11, 12], dangerous: [] };
+    expect(score(236, sectors)).toBeGreaterThan(score(205, sectors));
+  });
+
+  it('prefers side-on over onshore wind', () => {
+    // Water to the south: a southerly is onshore, a westerly side-on
+    const sectors: WindSectors = { good: [], dangerous: [], waterBearing: 180 };
+    expect(score(270, sectors)).toBeGreaterThan(score(180, sectors));
+  });
+});
+
+describe('user rules', () => {
+  it('still applies the upper limits', () => {
+    const day = hours('2026-06-15T08:00:00Z', 4, (i) => (i < 2 ? 15 : 45));
+    const slots = calculateSlots(day, NAV, { rule: compileRule('speed >= 12') });
+    // The last two hours are above windSpeedMax (40 km/h)
+    expect(slots.map((s) => s.hours)).toEqual([2]);
+  });
+});
+
+describe('slot sunshine', () => {
+  const day = (sun?: number) => hours('2026-06-15T08:00:00Z', 4).map((h) => ({ ...h, sun }));
+  const score = (sun?: number) => calculateSlots(day(sun), NAV)[0].score ?? 0;
+
+  it('rates unknown sunshine as neutral rather than overcast', () => {
+    expect(score(undefined)).toBe(score(30));
+    expect(score(undefined)).toBeGreaterThan(score(0));
+  });
+});
+
+describe('equipment profiles', () => {
+  const wing: EquipmentProfile = { id: 'w', name: 'Wing 5 m', windSpeedMin: 12, gustMin: 12 };
+
+  it('applies the spot override on top of each profile', () => {
+    const day = hours('2026-06-15T08:00:00Z', 4, (i) => (i < 2 ? 15 : 25));
+    // 15 km/h suits the wing, but this spot needs 20
+    expect(calculateEquipmentSlots(day, NAV, [wing], undefined).map((s) => s.hours)).toEqual([4]);
+    const slots = calculateEquipmentSlots(day, NAV, [wing], { windSpeedMin: 20 });
+    expect(slots.map((s) => [s.start, s.hours, s.equipment])).toEqual([[12, 2, 'Wing 5 m']]);
+  });
+});
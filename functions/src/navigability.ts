@@ -1,18 +1,95 @@
 import { dirText } from './utils.js';
-import type { HourlyData, NavigableSlot, NavigabilityConfig } from './types.js';
+import type { CompiledRule } from './rule.js';
+import type { Daylight, DayWaterTemp, EquipmentProfile, HourlyData, NavigableSlot, NavigabilityConfig, SpotThresholds, WindClass, WindSectors, WindExposure } from './types.js';
+
+/**
+ * Classify an hour against the speed and gust limits. Too light wins over the
+ * upper limits, and overpowered over too gusty.
+ */
+export function classifyHour(h: Pick<HourlyData, 'speed' | 'gust'>, config: NavigabilityConfig): WindClass {
+  if (h.speed < config.windSpeedMin || h.gust < config.gustMin) return 'too-light';
+  if (h.speed > config.windSpeedMax) return 'overpowered';
+  if (config.gustMax != null && h.gust > config.gustMax) return 'overpowered';
+  if (config.gustSpreadMax != null && h.gust - h.speed > config.gustSpreadMax) return 'too-gusty';
+  return 'good';
+}
+
+/**
+ * Whether an hour stays within the upper limits: speed, gust and gust spread.
+ * A user rule replaces the minimums but cannot lift these safety limits.
+ */
+export function isWithinUpperLimits(h: Pick<HourlyData, 'speed' | 'gust'>, config: NavigabilityConfig): boolean {
+  return h.speed <= config.windSpeedMax &&
+    (config.gustMax == null || h.gust <= config.gustMax) &&
+    (config.gustSpreadMax == null || h.gust - h.speed <= config.gustSpreadMax);
+}
+
+/**
+ * Apply a user's per-spot thresholds on top of their effective config.
+ * Returns the config unchanged when the spot has no override.
+ */
+export function applySpotOverride(
+  config: NavigabilityConfig,
+  override: SpotThresholds | undefined,
+): NavigabilityConfig {
+  if (!override) return config;
+  return clampLimits({
+    ...config,
+    windSpeedMin: override.windSpeedMin ?? config.windSpeedMin,
+    gustMin: override.gustMin ?? config.gustMin,
+  });
+}
+
+/**
+ * Keep the upper limits at or above the minimums. User, spot and equipment
+ * thresholds only raise the minimums; without this, a minimum above the
+ * admin's maximum would leave no navigable hour at all.
+ */
+export function clampLimits(config: NavigabilityConfig): NavigabilityConfig {
+  return {
+    ...config,
+    windSpeedMax: Math.max(config.windSpeedMax, config.windSpeedMin),
+    ...(config.gustMax != null && { gustMax: Math.max(config.gustMax, config.gustMin) }),
+  };
+}
+
+/** Per-spot and per-user inputs of slot detection on top of the global config. */
+export interface SlotOptions {
+  sectors?: WindSectors;
+  /** User rule; replaces the speed and gust minimums when set, the upper limits still apply. */
+  rule?: CompiledRule;
+  /** Day's water temperature, one of the score criteria. */
+  waterTemp?: DayWaterTemp;
+  /** Day's sunrise and sunset; the fixed day hours apply when missing. */
+  daylight?: Daylight;
+}
+
+/**
+ * Whether an hour belongs to the navigation window: its midpoint lies between
+ * sunrise and sunset, narrowed by the user's daylight margin. Without a
+ * daylight window, the fixed [dayStartHour, dayEndHour) range applies.
+ */
+export function isInDayWindow(hour: number, config: NavigabilityConfig, daylight?: Daylight): boolean {
+  if (!daylight) return hour >= config.dayStartHour && hour < config.dayEndHour;
+  const margin = config.daylightMargin ?? 0;
+  const midpoint = hour * 60 + 30;
+  return midpoint >= daylight.sunrise + margin && midpoint <= daylight.sunset - margin;
+}
 
 /**
  * Calculate navigable slots for a day's hourly data using the given config.
- * Only considers hours within [dayStartHour, dayEndHour).
+ * Only considers hours within the day window (see isInDayWindow).
+ * When the spot has direction sectors, hours blowing from a dangerous sector
+ * or outside the good ones are not navigable. A user rule, when given,
+ * decides instead of the speed and gust minimums; the upper limits still apply.
  */
 export function calculateSlots(
   hourly: HourlyData[],
   config: NavigabilityConfig,
+  { sectors, rule, waterTemp, daylight }: SlotOptions = {},
 ): NavigableSlot[] {
-  // Filter to the configured time window
-  const validHours = hourly.filter(
-    (h) => h.hour >= config.dayStartHour && h.hour < config.dayEndHour,
-  );
+  // Filter to the daylight (or configured) time window
+  const validHours = hourly.filter((h) => isInDayWindow(h.hour, config, daylight));
 
   const slots: NavigableSlot[] = [];
   let runStart = -1;
@@ -20,15 +97,15 @@ export function calculateSlots(
 
   for (const h of validHours) {
     const isNavigable =
-      h.speed >= config.windSpeedMin &&
-      h.gust >= config.gustMin;
+      (rule ? rule(h) && isWithinUpperLimits(h, config) : classifyHour(h, config) === 'good') &&
+      isDirectionAllowed(h.dir, sectors);
 
     if (isNavigable) {
       if (runStart === -1) runStart = h.hour;
       runHours.push(h);
     } else {
       if (runHours.length >= config.minConsecutiveHours) {
-        slots.push(buildSlot(runStart, runHours));
+        slots.push(buildSlot(runStart, runHours, config, sectors, waterTemp));
       }
       runStart = -1;
       runHours = [];
@@ -37,16 +114,56 @@ export function calculateSlots(
 
   // Handle run ending at end of valid window
   if (runHours.length >= config.minConsecutiveHours) {
-    slots.push(buildSlot(runStart, runHours));
+    slots.push(buildSlot(runStart, runHours, config, sectors, waterTemp));
   }
 
   return slots;
 }
 
+/**
+ * Navigable slots for each equipment profile, tagged with the profile name and
+ * sorted by start hour. The same hours can appear under several profiles.
+ * Without profiles — or when a user rule decides instead of thresholds — this
+ * is just calculateSlots. The spot override applies on top of each profile.
+ */
+export function calculateEquipmentSlots(
+  hourly: HourlyData[],
+  config: NavigabilityConfig,
+  profiles: EquipmentProfile[],
+  override: SpotThresholds | undefined,
+  options: SlotOptions = {},
+): NavigableSlot[] {
+  if (profiles.length === 0 || options.rule) return calculateSlots(hourly, applySpotOverride(config, override), options);
+  return profiles
+    .flatMap((profile) =>
+      calculateSlots(hourly, applySpotOverride(applyEquipment(config, profile), override), options)
+        .map((slot) => ({ ...slot, equipment: profile.name })),
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace the user's thresholds with those of an equipment profile.
+ */
+function applyEquipment(config: NavigabilityConfig, profile: EquipmentProfile): NavigabilityConfig {
+  return clampLimits({
+    ...config,
+    windSpeedMin: profile.windSpeedMin,
+    gustMin: profile.gustMin,
+    windSpeedMax: profile.windSpeedMax ?? config.windSpeedMax,
+  });
+}
+
 /**
  * Build a NavigableSlot from a consecutive run of navigable hours.
  */
-function buildSlot(startHour: number, hours: HourlyData[]): NavigableSlot {
+function buildSlot(
+  startHour: number,
+  hours: HourlyData[],
+  config: NavigabilityConfig,
+  sectors?: WindSectors,
+  waterTemp?: DayWaterTemp,
+): NavigableSlot {
   const avgSpeed = Math.round(
     hours.reduce((sum, h) => sum + h.speed, 0) / hours.length,
   );
@@ -64,9 +181,112 @@ function buildSlot(startHour: number, hours: HourlyData[]): NavigableSlot {
     avgSpeed,
     avgGust,
     direction: dirText(avgDir),
+    ...(sectors?.waterBearing != null && { exposure: windExposure(avgDir, sectors.waterBearing) }),
+    score: scoreSlot(hours, config, sectors, waterTemp),
   };
 }
 
+/**
+ * Quality score of a slot, 0–100. Weighted criteria, each rated 0–1:
+ * - duration (25): 4 hours or more is full marks
+ * - steadiness (20): hour-to-hour variation of the mean wind (coefficient of variation, 0 at 30 %)
+ * - gust spread (20): mean gust − speed, full marks up to 5 km/h, 0 at gustSpreadMax (20 km/h by default)
+ * - direction fit (15): per hour, see directionScore (full marks without sectors)
+ * - sunshine (10): mean sunshine minutes per hour (neutral when unknown)
+ * - water temperature (10): 10 °C → 0, 20 °C → 1, of the half-day containing the slot (neutral when unknown)
+ */
+function scoreSlot(
+  hours: HourlyData[],
+  config: NavigabilityConfig,
+  sectors?: WindSectors,
+  waterTemp?: DayWaterTemp,
+): number {
+  const clamp = (x: number) => Math.min(1, Math.max(0, x));
+  const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+
+  const speeds = hours.map((h) => h.speed);
+  const avgSpeed = mean(speeds);
+  const speedSd = Math.sqrt(mean(speeds.map((s) => (s - avgSpeed) ** 2)));
+  const spread = mean(hours.map((h) => h.gust - h.speed));
+  const maxSpread = config.gustSpreadMax ?? 20;
+
+  const duration = clamp(hours.length / 4);
+  const steadiness = avgSpeed > 0 ? clamp(1 - speedSd / avgSpeed / 0.3) : 0;
+  const gustiness = clamp(1 - (spread - 5) / Math.max(maxSpread - 5, 1));
+  const directionFit = mean(hours.map((h) => directionScore(h.dir, sectors)));
+  const sunMinutes = hours.flatMap((h) => (h.sun !== undefined ? [h.sun] : []));
+  const sunshine = sunMinutes.length > 0 ? clamp(mean(sunMinutes) / 60) : 0.5;
+  const midHour = (hours[0].hour + hours[hours.length - 1].hour + 1) / 2;
+  const water = midHour < 12
+    ? waterTemp?.morning ?? waterTemp?.afternoon
+    : waterTemp?.afternoon ?? waterTemp?.morning;
+  const warmth = water == null ? 0.5 : clamp((water - 10) / 10);
+
+  return Math.round(
+    25 * duration + 20 * steadiness + 20 * gustiness + 15 * directionFit + 10 * sunshine + 10 * warmth,
+  );
+}
+
+/**
+ * How well a wind direction suits the spot, 0–1. Slot hours are already in
+ * the good sectors, so this rates where they sit rather than whether:
+ * - relative to the shore when the water bearing is known: side-on is best (1),
+ *   straight onshore is 0.5 and straight offshore 0
+ * - otherwise relative to the good sectors: 1 at their centre, 0.5 at their edge
+ * Both are averaged when available; a spot without either scores 1.
+ */
+function directionScore(deg: number, sectors?: WindSectors): number {
+  const fits: number[] = [];
+  if (sectors?.waterBearing != null) {
+    const diff = angleBetween(deg, sectors.waterBearing);
+    fits.push(diff <= 90 ? 0.5 + diff / 180 : (180 - diff) / 90);
+  }
+  if (sectors && sectors.good.length > 0) {
+    const directions = sectors.good.map((s) => s * 22.5);
+    const centre = averageDirection(directions);
+    // Half-width of the good range: farthest sector centre plus half a sector
+    const halfWidth = Math.max(...directions.map((d) => angleBetween(d, centre))) + 11.25;
+    fits.push(Math.max(0, 1 - angleBetween(deg, centre) / halfWidth / 2));
+  }
+  return fits.length > 0 ? fits.reduce((sum, x) => sum + x, 0) / fits.length : 1;
+}
+
+/**
+ * Unsigned angle between two directions, 0–180°.
+ */
+function angleBetween(a: number, b: number): number {
+  return Math.abs((((a - b) % 360) + 540) % 360 - 180);
+}
+
+/**
+ * Index of the 16-point compass sector containing a direction (0 = N).
+ */
+function compassSector(deg: number): number {
+  return Math.round((((deg % 360) + 360) % 360) / 22.5) % 16;
+}
+
+/**
+ * Whether a wind direction is allowed by the spot's sectors.
+ * Dangerous sectors always exclude; an empty good list allows everything else.
+ */
+function isDirectionAllowed(deg: number, sectors?: WindSectors): boolean {
+  if (!sectors) return true;
+  const sector = compassSector(deg);
+  if (sectors.dangerous.includes(sector)) return false;
+  return sectors.good.length === 0 || sectors.good.includes(sector);
+}
+
+/**
+ * Classify a wind relative to the shore. The wind blows *from* `deg`, so a
+ * direction close to the water bearing comes in from the lake (onshore).
+ */
+function windExposure(deg: number, waterBearing: number): WindExposure {
+  const diff = angleBetween(deg, waterBearing);
+  if (diff <= 45) return 'onshore';
+  if (diff >= 135) return 'offshore';
+  return 'side-on';
+}
+
 /**
  * Compute the average wind direction using vector averaging.
  * This correctly handles wrap-around (e.g. 350° and 10° → 0°).
@@ -3,12 +3,18 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { defineSecret } from 'firebase-functions/params';
 import { getFirestore } from 'firebase-admin/firestore';
 import webpush from 'web-push';
-import { calculateSlots } from './navigability.js';
+import { calculateEquipmentSlots, clampLimits } from './navigability.js';
+import { loadRule } from './rule.js';
+import { FORECAST_DOC, readForecastSpots } from './forecastStore.js';
 import type {
+  EquipmentProfile,
   SpotConfig,
   NavigabilityConfig,
   SpotForecast,
   NavigableSlot,
+  SpotThresholds,
+  WindExposure,
+  WindSectors,
 } from './types.js';
 
 const VAPID_PUBLIC_KEY = defineSecret('VAPID_PUBLIC_KEY');
@@ -20,6 +26,15 @@ interface UserPreferences {
   windSpeedMin: number;
   gustMin: number;
   selectedSpots?: string[];
+  /** Rule expression replacing the speed/gust thresholds (see rule.ts). */
+  navigabilityRule?: string;
+  /** Thresholds per pointId, overriding windSpeedMin/gustMin for that spot. */
+  spotOverrides?: Record<string, SpotThresholds>;
+  equipment?: EquipmentProfile[];
+  /** Profile selected in the app header; empty means all profiles. */
+  activeEquipmentId?: string;
+  /** Minutes kept clear after sunrise and before sunset. */
+  daylightMargin?: number;
 }
 
 interface PushSubscriptionDoc {
@@ -171,20 +186,22 @@ export const sendTestNotification = onCall(
 /** Shared forecast context used by both daily and test notifications. */
 interface ForecastContext {
   globalNav: NavigabilityConfig;
-  forecastByPointId: Map<string, SpotForecast>;
+  /** Spot forecasts read so far; each spot is read at most once per run, and only if a user needs it. */
+  forecastCache: Map<string, Promise<SpotForecast | undefined>>;
   spotNameByPointId: Map<string, string>;
+  sectorsByPointId: Map<string, WindSectors>;
   allPointIds: Set<string>;
   todayStr: string;
 }
 
-/** Load config + forecast data needed to compute navigable spots. */
+/** Load config and check the forecast exists; spot forecasts are read on demand (loadSpotForecasts). */
 async function loadForecastContext(
   db: FirebaseFirestore.Firestore,
 ): Promise<ForecastContext | null> {
   const [navSnap, spotsSnap, forecastSnap] = await Promise.all([
     db.doc('config/navigability').get(),
     db.doc('config/spots').get(),
-    db.doc('forecasts/latest').get(),
+    db.doc(FORECAST_DOC).get(),
   ]);
 
   if (!navSnap.exists || !spotsSnap.exists || !forecastSnap.exists) {
@@ -193,17 +210,13 @@ async function loadForecastContext(
 
   const globalNav = navSnap.data() as NavigabilityConfig;
   const spotsConfig = spotsSnap.data()!.spots as SpotConfig[];
-  const forecastSpots = forecastSnap.data()!.spots as SpotForecast[];
-
-  const forecastByPointId = new Map<string, SpotForecast>();
-  for (const spot of forecastSpots) {
-    forecastByPointId.set(spot.pointId, spot);
-  }
 
   const spotNameByPointId = new Map<string, string>();
+  const sectorsByPointId = new Map<string, WindSectors>();
   const allPointIds = new Set<string>();
   for (const s of spotsConfig) {
     spotNameByPointId.set(s.pointId, s.name);
+    if (s.sectors) sectorsByPointId.set(s.pointId, s.sectors);
     allPointIds.add(s.pointId);
   }
 
@@ -211,7 +224,35 @@ async function loadForecastContext(
     timeZone: globalNav.timezone,
   });
 
-  return { globalNav, forecastByPointId, spotNameByPointId, allPointIds, todayStr };
+  return { globalNav, forecastCache: new Map(), spotNameByPointId, sectorsByPointId, allPointIds, todayStr };
+}
+
+/**
+ * Forecasts of the given spots, reading the ones not yet cached in a single batch.
+ */
+async function loadSpotForecasts(
+  db: FirebaseFirestore.Firestore,
+  ctx: ForecastContext,
+  pointIds: string[],
+): Promise<Map<string, SpotForecast>> {
+  const missing = pointIds.filter((id) => !ctx.forecastCache.has(id));
+  if (missing.length > 0) {
+    const read = readForecastSpots(db, missing);
+    for (const id of missing) {
+      ctx.forecastCache.set(id, read.then((spots) => spots.find((s) => s.pointId === id)));
+    }
+  }
+
+  const result = new Map<string, SpotForecast>();
+  for (const id of pointIds) {
+    const forecast = await ctx.forecastCache.get(id);
+    if (forecast) result.set(id, forecast);
+  }
+  return result;
+}
+
+function bestScore(spot: NavigableSpotInfo): number {
+  return Math.max(...spot.slots.map((s) => s.score ?? 0));
 }
 
 /** Compute navigable spots for a single user given their preferences. */
@@ -228,27 +269,39 @@ async function computeNavigableSpotsForUser(
     ? (prefsSnap.data() as UserPreferences)
     : { windSpeedMin: 15, gustMin: 25 };
 
-  const effectiveNav: NavigabilityConfig = {
+  const effectiveNav: NavigabilityConfig = clampLimits({
     ...ctx.globalNav,
     windSpeedMin: prefs.windSpeedMin,
     gustMin: prefs.gustMin,
-  };
+    ...(prefs.daylightMargin != null && { daylightMargin: prefs.daylightMargin }),
+  });
+
+  const rule = loadRule(prefs.navigabilityRule);
+  const equipment = prefs.equipment ?? [];
+  const activeEquipment = equipment.find((e) => e.id === prefs.activeEquipmentId);
+  const profiles = activeEquipment ? [activeEquipment] : equipment;
 
   const selectedPointIds =
     prefs.selectedSpots && prefs.selectedSpots.length > 0
       ? prefs.selectedSpots
       : [...ctx.allPointIds];
 
+  const forecasts = await loadSpotForecasts(db, ctx, selectedPointIds);
   const navigableSpots: NavigableSpotInfo[] = [];
 
   for (const pointId of selectedPointIds) {
-    const forecast = ctx.forecastByPointId.get(pointId);
+    const forecast = forecasts.get(pointId);
     if (!forecast) continue;
 
     const todayForecast = forecast.days.find((d) => d.date === ctx.todayStr);
     if (!todayForecast) continue;
 
-    const slots = calculateSlots(todayForecast.hourly, effectiveNav);
+    const slots = calculateEquipmentSlots(todayForecast.hourly, effectiveNav, profiles, prefs.spotOverrides?.[pointId], {
+      sectors: ctx.sectorsByPointId.get(pointId),
+      rule,
+      waterTemp: todayForecast.waterTemp,
+      daylight: todayForecast.daylight,
+    });
     if (slots.length > 0) {
       navigableSpots.push({
         name: ctx.spotNameByPointId.get(pointId) || forecast.name,
@@ -257,7 +310,8 @@ async function computeNavigableSpotsForUser(
     }
   }
 
-  return navigableSpots;
+  // Best-ranked spot first, so it leads the notification
+  return navigableSpots.sort((a, b) => bestScore(b) - bestScore(a));
 }
 
 /**
@@ -305,6 +359,12 @@ async function sendNotificationsToAll(db: FirebaseFirestore.Firestore) {
   console.log('Daily notifications processing complete');
 }
 
+const EXPOSURE_LABELS: Record<WindExposure, string> = {
+  'onshore': 'on-shore',
+  'side-on': 'side-on',
+  'offshore': 'off-shore',
+};
+
 function buildNotificationPayload(spots: NavigableSpotInfo[]): {
   title: string;
   body: string;
@@ -315,7 +375,7 @@ function buildNotificationPayload(spots: NavigableSpotInfo[]): {
 
   const lines = displayed.map((spot) => {
     const slotTexts = spot.slots.map((s) =>
-      `${s.avgSpeed}-${s.avgGust} km/h ${s.direction} (${s.start}h-${s.end}h)`,
+      `${s.avgSpeed}-${s.avgGust} km/h ${s.direction}${s.exposure ? ` ${EXPOSURE_LABELS[s.exposure]}` : ''} (${s.start}h-${s.end}h)${s.equipment ? ` · ${s.equipment}` : ''}`,
     );
     return `${spot.name}: ${slotTexts.join(' / ')}`;
   });
@@ -324,8 +384,14 @@ function buildNotificationPayload(spots: NavigableSpotInfo[]): {
     lines.push(`... et ${remaining} autre${remaining > 1 ? 's' : ''}`);
   }
 
+  // Gear to bring: every profile with a slot in the displayed spots
+  const gear = [...new Set(displayed.flatMap((spot) => spot.slots.map((s) => s.equipment).filter(Boolean)))];
+  if (gear.length > 0) {
+    lines.push(`Matériel : ${gear.join(', ')}`);
+  }
+
   return {
-    title: `Du vent aujourd'hui !`,
+    title: `Du vent aujourd'hui à ${displayed[0].name} !`,
     body: lines.join('\n'),
   };
 }
@@ -0,0 +1,150 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { formatCsvTimestamp } from './utils.js';
+import type { SpotConfig, StationObservation, ObservationSample } from './types.js';
+
+/**
+ * `observations/{stationId}` only holds the latest sample, so the clients that
+ * subscribe to it stay small; the rolling history is one document per sample in
+ * `observations/{stationId}/samples/{timestamp}`, read only when a chart needs it.
+ */
+const OBSERVATIONS_COLLECTION = 'observations';
+const SAMPLES_COLLECTION = 'samples';
+const HISTORY_HOURS = 48;
+
+const VQHA80_URL =
+  'https://data.geo.admin.ch/ch.meteoschweiz.messwerte-aktuell/VQHA80.csv';
+
+// CSV column indices (semicolon-separated)
+const COL_STATION = 0;
+const COL_DATE = 1; // YYYYMMDDHHmm UTC
+const COL_TEMP = 2; // tre200s0
+const COL_WIND_DIR = 8; // dkl010z0
+const COL_WIND_SPEED = 9; // fu3010z0
+const COL_WIND_GUST = 10; // fu3010z1
+
+function parseValue(v: string | undefined): number | null {
+  if (!v || v === '-') return null;
+  const n = parseFloat(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Fetch the latest SwissMetNet 10-minute observations (VQHA80) and keep only
+ * the given stations. Returns Map<stationId, observation>.
+ */
+export async function fetchObservations(
+  stationIds: Set<string>,
+): Promise<Map<string, StationObservation>> {
+  const response = await fetch(VQHA80_URL);
+  if (!response.ok) {
+    throw new Error(`VQHA80 fetch failed: HTTP ${response.status}`);
+  }
+  const csv = await response.text();
+
+  const result = new Map<string, StationObservation>();
+  const lines = csv.split('\n');
+
+  // Skip header row
+  for (let i = 1; i < lines.length; i++) {
+    const cols = lines[i].trim().split(';');
+    const stationId = cols[COL_STATION];
+    if (!stationId || !stationIds.has(stationId)) continue;
+
+    result.set(stationId, {
+      stationId,
+      timestamp: cols[COL_DATE],
+      temp: parseValue(cols[COL_TEMP]),
+      windSpeed: parseValue(cols[COL_WIND_SPEED]),
+      windGust: parseValue(cols[COL_WIND_GUST]),
+      windDir: parseValue(cols[COL_WIND_DIR]),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Scheduled function: ingestObservations
+ * Runs every 10 minutes (VQHA80 update rate), stores the latest observation of
+ * every configured station in `observations/{stationId}` and adds it to the
+ * station's rolling 48h of samples, so clients no longer download the national CSV.
+ */
+export const ingestObservations = onSchedule(
+  {
+    schedule: 'every 10 minutes',
+    timeZone: 'Europe/Zurich',
+    region: 'europe-west6',
+    memory: '256MiB',
+    timeoutSeconds: 60,
+  },
+  async () => {
+    const db = getFirestore();
+
+    const spotsSnap = await db.doc('config/spots').get();
+    if (!spotsSnap.exists) {
+      console.log('Missing config/spots, skipping observation ingestion');
+      return;
+    }
+    const stationIds = new Set(
+      (spotsSnap.data()!.spots as SpotConfig[]).map((s) => s.stationId).filter(Boolean),
+    );
+    if (stationIds.size === 0) return;
+
+    const observations = await fetchObservations(stationIds);
+    if (observations.size === 0) return;
+
+    // Samples are keyed by timestamp, so an unchanged CSV rewrites the same document
+    const batch = db.batch();
+    for (const { stationId, ...latest } of observations.values()) {
+      const ref = db.collection(OBSERVATIONS_COLLECTION).doc(stationId);
+      batch.set(ref, {
+        stationId,
+        latest,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      batch.set(ref.collection(SAMPLES_COLLECTION).doc(latest.timestamp), latest);
+    }
+    await batch.commit();
+
+    await pruneSamples(db, [...observations.keys()]);
+
+    console.log(`Observations ingested for ${observations.size} stations`);
+  },
+);
+
+/**
+ * Delete the samples of the given stations that fell out of the HISTORY_HOURS window.
+ */
+async function pruneSamples(db: FirebaseFirestore.Firestore, stationIds: string[]): Promise<void> {
+  const cutoff = formatCsvTimestamp(new Date(Date.now() - HISTORY_HOURS * 3600_000));
+  const staleSnaps = await Promise.all(stationIds.map((id) =>
+    db.collection(OBSERVATIONS_COLLECTION).doc(id).collection(SAMPLES_COLLECTION)
+      .where('timestamp', '<', cutoff)
+      .get()));
+
+  const batch = db.batch();
+  let count = 0;
+  for (const snap of staleSnaps) {
+    for (const sample of snap.docs) {
+      batch.delete(sample.ref);
+      count++;
+    }
+  }
+  if (count > 0) await batch.commit();
+}
+
+/**
+ * Read a station's most recent samples, oldest first.
+ */
+export async function readRecentSamples(
+  db: FirebaseFirestore.Firestore,
+  stationId: string,
+  count: number,
+): Promise<ObservationSample[]> {
+  const snap = await db.collection(OBSERVATIONS_COLLECTION).doc(stationId).collection(SAMPLES_COLLECTION)
+    .orderBy('timestamp', 'desc')
+    .limit(count)
+    .get();
+  return snap.docs.map((d) => d.data() as ObservationSample).reverse();
+}
@@ -0,0 +1,93 @@
+import { loadSmnStations } from './stations.js';
+import { distanceKm } from './utils.js';
+import type { WaterTempSeries } from './alplakes.js';
+import type { ForecastParam, ForecastPoint, ObservationDocument, SmnStation, SpotConfig, SpotProvenance } from './types.js';
+
+/** What a refresh knows about an SMN station. */
+export interface StationSource {
+  location?: SmnStation;
+  /** Latest ingested observation, YYYYMMDDHHmm UTC. */
+  observedAt?: string;
+}
+
+/** Sources of one spot's data, as used by a refresh. */
+export interface ProvenanceSources {
+  point?: ForecastPoint;
+  runs?: Partial<Record<ForecastParam, string>>;
+  alplakesKey?: string;
+  waterTemp?: WaterTempSeries;
+  station?: StationSource;
+}
+
+/**
+ * Location and latest observation time of the given stations.
+ * Missing information is left out; never throws.
+ */
+export async function loadStationSources(
+  db: FirebaseFirestore.Firestore,
+  stationIds: string[],
+): Promise<Map<string, StationSource>> {
+  const ids = [...new Set(stationIds.filter(Boolean))];
+  const [locations, snaps] = await Promise.all([
+    loadSmnStations(db),
+    ids.length > 0
+      ? db.getAll(...ids.map((id) => db.doc(`observations/${id}`))).catch((err) => {
+        console.warn('Failed to read observations for provenance:', err);
+        return [];
+      })
+      : Promise.resolve([]),
+  ]);
+
+  const sources = new Map<string, StationSource>();
+  for (const id of ids) {
+    const location = locations[id];
+    const snap = snaps.find((s) => s.id === id);
+    const observedAt = snap?.exists ? (snap.data() as ObservationDocument).latest?.timestamp : undefined;
+    sources.set(id, { ...(location && { location }), ...(observedAt && { observedAt }) });
+  }
+  return sources;
+}
+
+function roundKm(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+/**
+ * Provenance block of a spot. Distances are from the spot to the forecast
+ * point and to the station, in km with one decimal.
+ */
+export function buildProvenance(spot: SpotConfig, sources: ProvenanceSources): SpotProvenance {
+  const { point, station, waterTemp } = sources;
+  const location = station?.location;
+
+  return {
+    provider: spot.provider ?? 'meteoswiss',
+    forecastPoint: {
+      id: spot.pointId,
+      ...(point && {
+        lat: point.lat,
+        lon: point.lon,
+        distanceKm: roundKm(distanceKm(spot.lat, spot.lon, point.lat, point.lon)),
+      }),
+      ...(point?.name && { name: point.name }),
+    },
+    ...(sources.runs && Object.keys(sources.runs).length > 0 && { runs: sources.runs }),
+    ...(sources.alplakesKey && {
+      alplakes: {
+        lake: sources.alplakesKey,
+        ...(waterTemp?.simulationStart != null && { simulationStart: waterTemp.simulationStart }),
+        ...(waterTemp?.simulationUpdatedAt != null && { simulationUpdatedAt: waterTemp.simulationUpdatedAt }),
+      },
+    }),
+    ...(spot.stationId && {
+      station: {
+        id: spot.stationId,
+        ...(location && {
+          name: location.name,
+          distanceKm: roundKm(distanceKm(spot.lat, spot.lon, location.lat, location.lon)),
+        }),
+        ...(station?.observedAt && { observedAt: station.observedAt }),
+      },
+    }),
+  };
+}
@@ -0,0 +1,129 @@
+import { meteoSwissProvider, type MergedData, type ParseTiming, type PreviousRun } from './meteo.js';
+import { gridProvider } from './grid.js';
+import { formatCsvTimestamp } from './utils.js';
+import type { SpotConfig, ForecastProviderId, ForecastParam, ForecastPoint, ParamStatus, Upstream, UpstreamFailure } from './types.js';
+
+export interface ProviderResult {
+  data: MergedData;
+  csvTimestamp?: string;
+  timings?: ParseTiming[];
+  paramStatus?: Partial<Record<ForecastParam, ParamStatus>>;
+  /** Location of the forecast used per pointId, when the source publishes it. */
+  points?: Map<string, ForecastPoint>;
+  /** Spots the source could not deliver, with their error; the other spots are kept. */
+  failedPoints?: Map<string, string>;
+}
+
+/** Forecasts of every provider, and the providers that failed in whole or in part. */
+export interface AllForecastsResult extends Required<Omit<ProviderResult, 'failedPoints'>> {
+  failures: UpstreamFailure[];
+}
+
+/**
+ * A forecast source. Returns hourly values keyed by pointId and UTC timestamp
+ * (YYYYMMDDHHmm), plus the model run timestamp when the source exposes one.
+ * `previous` is the last published run, for sources that can fill gaps from it.
+ */
+export interface ForecastProvider {
+  id: ForecastProviderId;
+  fetch(spots: SpotConfig[], previous?: PreviousRun): Promise<ProviderResult>;
+}
+
+/** A data source failed as a whole; `upstream` names it in the refresh status. */
+export class UpstreamError extends Error {
+  readonly upstream: Upstream;
+
+  constructor(upstream: Upstream, message: string) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.upstream = upstream;
+  }
+}
+
+const PROVIDERS: Record<ForecastProviderId, ForecastProvider> = {
+  meteoswiss: meteoSwissProvider,
+  grid: gridProvider,
+};
+
+/**
+ * Fetch forecasts for all spots, each from its own provider, in parallel.
+ * A failing provider or spot doesn't stop the others: its spots keep their
+ * values from `previous` when available, and the failure is reported.
+ * Throws only when no spot got any data.
+ * The run timestamp is the MétéoSuisse one when available, otherwise the
+ * current hour (grid sources don't expose their model run).
+ */
+export async function fetchAllForecasts(
+  spots: SpotConfig[],
+  previous?: PreviousRun,
+): Promise<AllForecastsResult> {
+  const spotsByProvider = new Map<ForecastProviderId, SpotConfig[]>();
+  for (const spot of spots) {
+    const id = spot.provider ?? 'meteoswiss';
+    const group = spotsByProvider.get(id) ?? [];
+    group.push(spot);
+    spotsByProvider.set(id, group);
+  }
+
+  const groups = [...spotsByProvider];
+  const settled = await Promise.allSettled(
+    groups.map(([id, group]) => PROVIDERS[id].fetch(group, previous)),
+  );
+
+  const data: MergedData = new Map();
+  const timings: ParseTiming[] = [];
+  let csvTimestamp: string | undefined;
+  let paramStatus: Partial<Record<ForecastParam, ParamStatus>> = {};
+  const points = new Map<string, ForecastPoint>();
+  const failures: UpstreamFailure[] = [];
+  const failedPointIds: string[] = [];
+
+  settled.forEach((outcome, i) => {
+    const [id, group] = groups[i];
+    if (outcome.status === 'rejected') {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      console.error(`Provider ${id} failed:`, error);
+      failures.push({ upstream: id, error });
+      failedPointIds.push(...group.map((s) => s.pointId));
+      return;
+    }
+
+    const result = outcome.value;
+    for (const [pointId, values] of result.data) data.set(pointId, values);
+    for (const [pointId, point] of result.points ?? []) points.set(pointId, point);
+    timings.push(...(result.timings ?? []));
+    csvTimestamp ??= result.csvTimestamp;
+    if (result.paramStatus) paramStatus = { ...paramStatus, ...result.paramStatus };
+    if (result.failedPoints && result.failedPoints.size > 0) {
+      failures.push({
+        upstream: id,
+        partial: true,
+        error: [...result.failedPoints].map(([pointId, error]) => `${pointId}: ${error}`).join('; '),
+      });
+      failedPointIds.push(...result.failedPoints.keys());
+    }
+  });
+
+  // Failed spots keep the previous run's values rather than disappearing
+  let reusedPrevious = false;
+  for (const pointId of failedPointIds) {
+    const values = previous?.data.get(pointId);
+    if (values && !data.has(pointId)) {
+      data.set(pointId, values);
+      reusedPrevious = true;
+    }
+  }
+
+  if (data.size === 0 && failures.length > 0) {
+    throw new UpstreamError(failures[0].upstream, failures.map((f) => f.error).join('; '));
+  }
+
+  if (!csvTimestamp && reusedPrevious) csvTimestamp = previous!.csvTimestamp;
+  if (!csvTimestamp) {
+    const now = new Date();
+    now.setUTCMinutes(0, 0, 0);
+    csvTimestamp = formatCsvTimestamp(now);
+  }
+
+  return { data, csvTimestamp, timings, paramStatus, points, failures };
+}
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { refreshErrorCode } from './refreshStatus.js';
+
+describe('refreshErrorCode', () => {
+  it('reduces upstream and exception messages to their kind', () => {
+    expect(refreshErrorCode('HTTP 503 for https://data.geo.admin.ch/…')).toBe('unavailable');
+    expect(refreshErrorCode('sun: older run 202606150600')).toBe('unavailable');
+    expect(refreshErrorCode('The operation was aborted due to timeout')).toBe('timeout');
+    expect(refreshErrorCode('MeteoSuisse: no data for required parameters speed')).toBe('invalid-data');
+    expect(refreshErrorCode("Cannot read properties of undefined (reading 'days')")).toBe('internal');
+  });
+});
@@ -0,0 +1,81 @@
+import type {
+  PublicRefreshAttempt,
+  PublicUpstreamFailure,
+  RefreshAttempt,
+  RefreshErrorCode,
+  RefreshHistoryDocument,
+  RefreshStatusDocument,
+  UpstreamFailure,
+  UpstreamOutage,
+} from './types.js';
+
+/** Public status read by every client: last attempt, last success and outages. */
+export const STATUS_DOC = 'forecasts/_status';
+/** Attempt log, read by admins only. */
+const HISTORY_DOC = 'refreshHistory/recent';
+
+/** Attempts kept in the history. */
+const HISTORY_LENGTH = 30;
+
+/**
+ * Kind of an error from its message, for the public status: upstream and
+ * exception messages may carry URLs or internal details, so only the kind is published.
+ */
+export function refreshErrorCode(message: string): RefreshErrorCode {
+  if (/timed? ?out|abort/i.test(message)) return 'timeout';
+  if (/\bHTTP [45]\d\d\b|fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket|older run/i.test(message)) return 'unavailable';
+  if (/no data|unexpected|invalid|JSON/i.test(message)) return 'invalid-data';
+  return 'internal';
+}
+
+function publicFailure({ upstream, error, partial }: UpstreamFailure): PublicUpstreamFailure {
+  return { upstream, code: refreshErrorCode(error), ...(partial && { partial }) };
+}
+
+function publicAttempt({ failures, error, ...attempt }: RefreshAttempt): PublicRefreshAttempt {
+  return {
+    ...attempt,
+    failures: failures.map(publicFailure),
+    ...(error !== undefined && { errorCode: refreshErrorCode(error) }),
+  };
+}
+
+/**
+ * Record a refresh attempt in `forecasts/_status` (error kinds only) and, with
+ * its messages, in the admin history.
+ * An outage keeps the time of its first failure while the upstream keeps
+ * failing, and ends with the first attempt that reaches it again. A failed
+ * attempt that never reached an upstream (e.g. lost lock) leaves outages as they were.
+ */
+export async function recordRefreshAttempt(
+  db: FirebaseFirestore.Firestore,
+  attempt: RefreshAttempt,
+): Promise<void> {
+  const ref = db.doc(STATUS_DOC);
+  const historyRef = db.doc(HISTORY_DOC);
+  await db.runTransaction(async (tx) => {
+    const [snap, historySnap] = await tx.getAll(ref, historyRef);
+    const current = snap.exists ? snap.data() as RefreshStatusDocument : undefined;
+    const previousAttempts = historySnap.exists ? (historySnap.data() as RefreshHistoryDocument).attempts : [];
+    const previousOutages = current?.outages ?? [];
+
+    const outages: UpstreamOutage[] = attempt.outcome === 'failed' && attempt.failures.length === 0
+      ? previousOutages
+      : attempt.failures.map((failure) => ({
+        ...publicFailure(failure),
+        since: previousOutages.find((o) => o.upstream === failure.upstream)?.since ?? attempt.at,
+      }));
+
+    const lastSuccess = attempt.outcome !== 'failed' && attempt.csvTimestamp
+      ? { at: attempt.at, csvTimestamp: attempt.csvTimestamp }
+      : current?.lastSuccess;
+
+    const status: RefreshStatusDocument = {
+      lastAttempt: publicAttempt(attempt),
+      ...(lastSuccess && { lastSuccess }),
+      outages,
+    };
+    tx.set(ref, status);
+    tx.set(historyRef, { attempts: [attempt, ...previousAttempts].slice(0, HISTORY_LENGTH) });
+  });
+}
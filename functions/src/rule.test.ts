@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSlots } from './navigability.js';
+import { compileRule, RuleError } from './rule.js';
+import type { HourlyData, NavigabilityConfig } from './types.js';
+
+describe('compileRule limits', () => {
+  it('rejects deep nesting with a RuleError instead of overflowing the stack', () => {
+    const source = '('.repeat(5000) + 'speed >= 10' + ')'.repeat(5000);
+    expect(() => compileRule(source)).toThrow(RuleError);
+    expect(() => compileRule('not '.repeat(30) + 'speed >= 10')).toThrow(/Imbrication trop profonde/);
+  });
+
+  it('accepts nesting within the limit', () => {
+    expect(() => compileRule('((not (speed >= 10)))')).not.toThrow();
+  });
+});
+
+/** An hour of wind at `speed` km/h from `dir`°, without the optional values. */
+function hour(speed: number, dir: number, extra: Partial<HourlyData> = {}): HourlyData {
+  return { hour: 12, speed, gust: speed + 5, dir, dirText: '', ...extra };
+}
+
+const NAV: NavigabilityConfig = {
+  windSpeedMin: 10,
+  windSpeedMax: 40,
+  gustMin: 10,
+  minConsecutiveHours: 1,
+  dayStartHour: 0,
+  dayEndHour: 24,
+  timezone: 'Europe/Zurich',
+};
+
+describe('compileRule evaluation', () => {
+  it('matches a sector range that wraps around north', () => {
+    const rule = compileRule('dir in NO..NE');
+    expect([315, 350, 0, 20, 45].map((dir) => rule(hour(15, dir)))).toEqual([true, true, true, true, true]);
+    expect([90, 180, 270].map((dir) => rule(hour(15, dir)))).toEqual([false, false, false]);
+  });
+
+  it('never matches on a missing value, even negated', () => {
+    expect(compileRule('temp >= 20')(hour(15, 0))).toBe(false);
+    expect(compileRule('not (temp >= 20)')(hour(15, 0))).toBe(false);
+    expect(compileRule('non temp < 20')(hour(15, 0))).toBe(false);
+    // A known operand still decides
+    expect(compileRule('speed >= 10 or temp >= 20')(hour(15, 0))).toBe(true);
+    expect(compileRule('not (speed < 10 and temp >= 20)')(hour(15, 0))).toBe(true);
+    expect(compileRule('not (temp >= 20)')(hour(15, 0, { temp: 18 }))).toBe(true);
+  });
+
+  it('accepts the French keywords and compass names', () => {
+    const french = compileRule('speed >= 12 et (dir dans SO..O ou non gust > 30)');
+    const english = compileRule('speed >= 12 and (dir in SW..W or not gust > 30)');
+    for (const h of [hour(15, 225), hour(15, 270), hour(15, 90), hour(28, 90), hour(8, 225)]) {
+      expect(french(h)).toBe(english(h));
+    }
+    expect(french(hour(15, 270))).toBe(true);
+    expect(french(hour(28, 90))).toBe(false);
+  });
+
+  it('rejects rules over the maximum length', () => {
+    const source = 'speed >= 10 and '.repeat(40) + 'speed >= 10';
+    expect(() => compileRule(source)).toThrow(/Règle trop longue/);
+  });
+});
+
+describe('rules in slot detection', () => {
+  it('keep the upper limits', () => {
+    const hours = [10, 11, 12, 13].map((h, i) => ({ ...hour(i < 2 ? 20 : 45, 225), hour: h }));
+    const slots = calculateSlots(hours, NAV, { rule: compileRule('speed >= 5') });
+    expect(slots.map((s) => [s.start, s.end])).toEqual([[10, 12]]);
+  });
+});
@@ -0,0 +1,375 @@
+import type { HourlyData } from './types.js';
+
+/**
+ * Navigability rules: a small boolean expression language evaluated per hour,
+ * e.g. `speed >= 14 and gust - speed <= 10 and dir in SW..NW`.
+ *
+ * Rules come from user preferences, so they are parsed into an AST and
+ * interpreted — never passed to eval/Function. Only the variables below are
+ * reachable; there are no calls, property accesses or loops.
+ */
+
+const VARIABLES = {
+  speed: (h: HourlyData) => h.speed,
+  gust: (h: HourlyData) => h.gust,
+  dir: (h: HourlyData) => h.dir,
+  sun: (h: HourlyData) => h.sun ?? NaN,
+  temp: (h: HourlyData) => h.temp ?? NaN,
+  precip: (h: HourlyData) => h.precip ?? NaN,
+  precipProb: (h: HourlyData) => h.precipProb ?? NaN,
+  cloud: (h: HourlyData) => h.cloud ?? NaN,
+  hour: (h: HourlyData) => h.hour,
+} satisfies Record<string, (h: HourlyData) => number>;
+
+type RuleVariable = keyof typeof VARIABLES;
+
+/** 16-point compass, French and English spellings (O/W for west). */
+const COMPASS: Record<string, number> = {
+  N: 0, NNE: 1, NE: 2, ENE: 3, E: 4, ESE: 5, SE: 6, SSE: 7,
+  S: 8, SSO: 9, SSW: 9, SO: 10, SW: 10, OSO: 11, WSW: 11,
+  O: 12, W: 12, ONO: 13, WNW: 13, NO: 14, NW: 14, NNO: 15, NNW: 15,
+};
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not' | 'in'> = {
+  and: 'and', et: 'and',
+  or: 'or', ou: 'or',
+  not: 'not', non: 'not',
+  in: 'in', dans: 'in',
+};
+
+type CompareOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+type RuleNode =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: RuleVariable }
+  | { type: 'neg'; arg: RuleNode }
+  | { type: 'arith'; op: '+' | '-' | '*' | '/'; left: RuleNode; right: RuleNode }
+  | { type: 'compare'; op: CompareOp; left: RuleNode; right: RuleNode }
+  | { type: 'dirIn'; arg: RuleNode; from: number; to: number }
+  | { type: 'not'; arg: RuleNode }
+  | { type: 'logic'; op: 'and' | 'or'; left: RuleNode; right: RuleNode };
+
+/** A compiled rule: true when the hour is navigable. */
+export type CompiledRule = (h: HourlyData) => boolean;
+
+/** Syntax or type error in a rule, with the character offset where it was detected. */
+export class RuleError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'RuleError';
+    this.position = position;
+  }
+}
+
+interface Token {
+  kind: 'num' | 'word' | 'op' | 'end';
+  text: string;
+  pos: number;
+}
+
+/** Longest accepted rule, which also bounds the depth of `and` / `or` chains. */
+const MAX_RULE_LENGTH = 500;
+/** Deepest nesting of parentheses, `not` and unary minus. */
+const MAX_NESTING = 20;
+
+/** Unicode operators are accepted as typed on phones. */
+const OP_ALIASES: Record<string, string> = { '≥': '>=', '≤': '<=', '≠': '!=', '−': '-', '=': '==' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[0-9.]/.test(c) && !source.startsWith('..', i)) {
+      const match = /^\d+(\.\d+)?|^\.\d+/.exec(source.slice(i));
+      if (!match) throw new RuleError('Nombre invalide', i);
+      tokens.push({ kind: 'num', text: match[0], pos: i });
+      i += match[0].length;
+    } else if (/[A-Za-z]/.test(c)) {
+      const word = /^[A-Za-z]+/.exec(source.slice(i))![0];
+      tokens.push({ kind: 'word', text: word, pos: i });
+      i += word.length;
+    } else {
+      const two = source.slice(i, i + 2);
+      if (['>=', '<=', '==', '!=', '..'].includes(two)) {
+        tokens.push({ kind: 'op', text: two, pos: i });
+        i += 2;
+      } else if ('<>+-*/()≥≤≠−='.includes(c)) {
+        tokens.push({ kind: 'op', text: OP_ALIASES[c] ?? c, pos: i });
+        i++;
+      } else {
+        throw new RuleError(`Caractère inattendu « ${c} »`, i);
+      }
+    }
+  }
+  tokens.push({ kind: 'end', text: '', pos: source.length });
+  return tokens;
+}
+
+function isBoolean(node: RuleNode): boolean {
+  return node.type === 'compare' || node.type === 'dirIn' || node.type === 'not' || node.type === 'logic';
+}
+
+/**
+ * Recursive-descent parser. Precedence, lowest first:
+ * or, and, not, comparison / `in`, + -, * /, unary minus.
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): RuleNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== 'end') throw new RuleError(`« ${token.text} » inattendu`, token.pos);
+    if (!isBoolean(node)) throw new RuleError('La règle doit être une condition (ex. speed >= 15)', 0);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private keyword(token: Token): string | undefined {
+    const word = token.text.toLowerCase();
+    return token.kind === 'word' && Object.hasOwn(KEYWORDS, word) ? KEYWORDS[word] : undefined;
+  }
+
+  /** Parse a nested construct, failing past MAX_NESTING before the call stack would overflow. */
+  private nested(pos: number, parse: () => RuleNode): RuleNode {
+    if (++this.depth > MAX_NESTING) throw new RuleError(`Imbrication trop profonde (maximum ${MAX_NESTING})`, pos);
+    const node = parse();
+    this.depth--;
+    return node;
+  }
+
+  private expectBoolean(node: RuleNode, pos: number): RuleNode {
+    if (!isBoolean(node)) throw new RuleError('Condition attendue', pos);
+    return node;
+  }
+
+  private expectNumber(node: RuleNode, pos: number): RuleNode {
+    if (isBoolean(node)) throw new RuleError('Valeur numérique attendue', pos);
+    return node;
+  }
+
+  private parseOr(): RuleNode {
+    const start = this.peek().pos;
+    let left = this.parseAnd();
+    while (this.keyword(this.peek()) === 'or') {
+      const pos = this.next().pos;
+      const right = this.parseAnd();
+      left = { type: 'logic', op: 'or', left: this.expectBoolean(left, start), right: this.expectBoolean(right, pos) };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleNode {
+    const start = this.peek().pos;
+    let left = this.parseNot();
+    while (this.keyword(this.peek()) === 'and') {
+      const pos = this.next().pos;
+      const right = this.parseNot();
+      left = { type: 'logic', op: 'and', left: this.expectBoolean(left, start), right: this.expectBoolean(right, pos) };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleNode {
+    if (this.keyword(this.peek()) === 'not') {
+      const pos = this.next().pos;
+      return { type: 'not', arg: this.expectBoolean(this.nested(pos, () => this.parseNot()), pos) };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleNode {
+    const start = this.peek().pos;
+    const left = this.parseSum();
+    const token = this.peek();
+
+    if (this.keyword(token) === 'in') {
+      this.next();
+      const from = this.parseCompass();
+      let to = from;
+      if (this.peek().text === '..') {
+        this.next();
+        to = this.parseCompass();
+      }
+      return { type: 'dirIn', arg: this.expectNumber(left, start), from, to };
+    }
+
+    if (token.kind === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(token.text)) {
+      this.next();
+      const right = this.parseSum();
+      return {
+        type: 'compare',
+        op: token.text as CompareOp,
+        left: this.expectNumber(left, start),
+        right: this.expectNumber(right, token.pos),
+      };
+    }
+    return left;
+  }
+
+  private parseCompass(): number {
+    const token = this.next();
+    const name = token.text.toUpperCase();
+    if (token.kind !== 'word' || !Object.hasOwn(COMPASS, name)) {
+      throw new RuleError('Direction attendue (N, NE, SO, …)', token.pos);
+    }
+    return COMPASS[name];
+  }
+
+  private parseSum(): RuleNode {
+    const start = this.peek().pos;
+    let left = this.parseProduct();
+    while (this.peek().text === '+' || this.peek().text === '-') {
+      const token = this.next();
+      const right = this.parseProduct();
+      left = {
+        type: 'arith',
+        op: token.text as '+' | '-',
+        left: this.expectNumber(left, start),
+        right: this.expectNumber(right, token.pos),
+      };
+    }
+    return left;
+  }
+
+  private parseProduct(): RuleNode {
+    const start = this.peek().pos;
+    let left = this.parseUnary();
+    while (this.peek().text === '*' || this.peek().text === '/') {
+      const token = this.next();
+      const right = this.parseUnary();
+      left = {
+        type: 'arith',
+        op: token.text as '*' | '/',
+        left: this.expectNumber(left, start),
+        right: this.expectNumber(right, token.pos),
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleNode {
+    if (this.peek().text === '-') {
+      const pos = this.next().pos;
+      return { type: 'neg', arg: this.expectNumber(this.nested(pos, () => this.parseUnary()), pos) };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.next();
+    if (token.kind === 'num') return { type: 'num', value: Number(token.text) };
+    if (token.kind === 'word' && Object.hasOwn(VARIABLES, token.text)) {
+      return { type: 'var', name: token.text as RuleVariable };
+    }
+    if (token.text === '(') {
+      const node = this.nested(token.pos, () => this.parseOr());
+      const close = this.next();
+      if (close.text !== ')') throw new RuleError('Parenthèse fermante attendue', close.pos);
+      return node;
+    }
+    if (token.kind === 'end') throw new RuleError('Règle incomplète', token.pos);
+    if (token.kind === 'word') {
+      throw new RuleError(`Variable inconnue « ${token.text} » (${Object.keys(VARIABLES).join(', ')})`, token.pos);
+    }
+    throw new RuleError(`« ${token.text} » inattendu`, token.pos);
+  }
+}
+
+/**
+ * Evaluate a node. Conditions on a missing optional value are unknown (null)
+ * rather than false, so that `not` doesn't turn them true: unknown stays
+ * unknown under `not`, `and`/`or` follow three-valued logic, and a rule that
+ * ends up unknown doesn't match.
+ */
+function evaluate(node: RuleNode, h: HourlyData): number | boolean | null {
+  switch (node.type) {
+    case 'num':
+      return node.value;
+    case 'var':
+      return VARIABLES[node.name](h);
+    case 'neg':
+      return -(evaluate(node.arg, h) as number);
+    case 'arith': {
+      const a = evaluate(node.left, h) as number;
+      const b = evaluate(node.right, h) as number;
+      if (node.op === '+') return a + b;
+      if (node.op === '-') return a - b;
+      if (node.op === '*') return a * b;
+      return a / b;
+    }
+    case 'compare': {
+      const a = evaluate(node.left, h) as number;
+      const b = evaluate(node.right, h) as number;
+      // Missing optional values are NaN, so every comparison with them is unknown
+      if (Number.isNaN(a) || Number.isNaN(b)) return null;
+      if (node.op === '<') return a < b;
+      if (node.op === '<=') return a <= b;
+      if (node.op === '>') return a > b;
+      if (node.op === '>=') return a >= b;
+      if (node.op === '==') return a === b;
+      return a !== b;
+    }
+    case 'dirIn': {
+      const deg = evaluate(node.arg, h) as number;
+      if (Number.isNaN(deg)) return null;
+      const sector = Math.round((((deg % 360) + 360) % 360) / 22.5) % 16;
+      // Clockwise range, inclusive on both ends (e.g. NO..NE wraps through N)
+      return (sector - node.from + 16) % 16 <= (node.to - node.from + 16) % 16;
+    }
+    case 'not': {
+      const arg = evaluate(node.arg, h) as boolean | null;
+      return arg === null ? null : !arg;
+    }
+    case 'logic': {
+      const a = evaluate(node.left, h) as boolean | null;
+      const b = evaluate(node.right, h) as boolean | null;
+      // A known result wins over an unknown one: false for and, true for or
+      if (node.op === 'and') return a === false || b === false ? false : a === null || b === null ? null : true;
+      return a === true || b === true ? true : a === null || b === null ? null : false;
+    }
+  }
+}
+
+/**
+ * Parse a rule. Throws RuleError on invalid input.
+ */
+export function compileRule(source: string): CompiledRule {
+  if (source.length > MAX_RULE_LENGTH) {
+    throw new RuleError(`Règle trop longue (maximum ${MAX_RULE_LENGTH} caractères)`, MAX_RULE_LENGTH);
+  }
+  const ast = new Parser(tokenize(source)).parse();
+  return (h) => evaluate(ast, h) === true;
+}
+
+/**
+ * Compile a stored rule, or return undefined when it is empty or invalid
+ * (an invalid rule falls back to the threshold-based navigability).
+ */
+export function loadRule(source: string | undefined): CompiledRule | undefined {
+  if (!source?.trim()) return undefined;
+  try {
+    return compileRule(source);
+  } catch (err) {
+    console.warn(`Ignoring invalid navigability rule "${source}":`, err instanceof Error ? err.message : err);
+    return undefined;
+  }
+}
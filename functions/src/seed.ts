@@ -130,7 +130,7 @@ async function seed() {
   // config/navigability
   await db.doc('config/navigability').set({
     windSpeedMin: 15,
-    windSpeedMax: 20,
+    windSpeedMax: 40,
     gustMin: 25,
     minConsecutiveHours: 2,
     dayStartHour: 7,
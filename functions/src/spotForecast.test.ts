@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { toPreviousRun } from './meteo.js';
+import { buildSpotForecast } from './spotForecast.js';
+import { formatCsvTimestamp } from './utils.js';
+import type { MergedData, MeteoValues } from './meteo.js';
+import type { NavigabilityConfig, SpotConfig } from './types.js';
+
+const SPOT: SpotConfig = {
+  id: 'test',
+  name: 'Test',
+  pointId: '100100',
+  stationId: 'PUY',
+  npa: 1001,
+  lat: 46.5,
+  lon: 6.6,
+  lake: 'geneva',
+  alplakesKey: '',
+};
+
+/** Whole-day window so every hour of the day is kept. */
+const NAV: NavigabilityConfig = {
+  windSpeedMin: 10,
+  windSpeedMax: 40,
+  gustMin: 10,
+  minConsecutiveHours: 2,
+  dayStartHour: 0,
+  dayEndHour: 24,
+  timezone: 'Europe/Zurich',
+};
+
+/** Hourly values from `fromUtc` (inclusive) to `toUtc` (exclusive). */
+function hourlyData(fromUtc: string, toUtc: string): MergedData {
+  const values = new Map<string, MeteoValues>();
+  for (let t = Date.parse(fromUtc); t < Date.parse(toUtc); t += 3600_000) {
+    values.set(formatCsvTimestamp(new Date(t)), { speed: 15, gust: 20, dir: 225, sun: 0 });
+  }
+  return new Map([[SPOT.pointId, values]]);
+}
+
+function build(fromUtc: string, toUtc: string) {
+  return buildSpotForecast(SPOT, hourlyData(fromUtc, toUtc), new Map(), NAV, new Map(), undefined, undefined);
+}
+
+describe('buildSpotForecast on DST days', () => {
+  it('groups 23 hours into the March change day, without 2h', () => {
+    // Local day 2026-03-29 runs from 23:00 UTC the day before to 22:00 UTC
+    const forecast = build('2026-03-28T23:00:00Z', '2026-03-29T22:00:00Z');
+    expect(forecast.days.map((d) => d.date)).toEqual(['2026-03-29']);
+
+    const { hourly } = forecast.days[0];
+    expect(hourly).toHaveLength(23);
+    expect(hourly.map((h) => h.hour)).not.toContain(2);
+    expect(hourly.slice(0, 4).map((h) => [h.hour, h.utcOffset])).toEqual([[0, 60], [1, 60], [3, 120], [4, 120]]);
+  });
+
+  it('groups 25 hours into the October change day, with 2h twice in time order', () => {
+    // Local day 2026-10-25 runs from 22:00 UTC the day before to 23:00 UTC
+    const forecast = build('2026-10-24T22:00:00Z', '2026-10-25T23:00:00Z');
+    expect(forecast.days.map((d) => d.date)).toEqual(['2026-10-25']);
+
+    const { hourly } = forecast.days[0];
+    expect(hourly).toHaveLength(25);
+    expect(hourly.slice(0, 5).map((h) => [h.hour, h.utcOffset])).toEqual([[0, 120], [1, 120], [2, 120], [2, 60], [3, 60]]);
+    // UTC times are unique and ascending
+    const times = hourly.map((h) => h.time!);
+    expect(new Set(times).size).toBe(25);
+    expect([...times].sort((a, b) => a - b)).toEqual(times);
+  });
+});
+
+describe('toPreviousRun on DST days', () => {
+  it('keeps both 2h of the October change day', () => {
+    const forecast = build('2026-10-24T22:00:00Z', '2026-10-25T23:00:00Z');
+    const { data } = toPreviousRun('202610240000', [forecast], NAV.timezone);
+
+    const timestamps = [...data.get(SPOT.pointId)!.keys()];
+    expect(timestamps).toHaveLength(25);
+    expect(timestamps).toContain('202610250000');
+    expect(timestamps).toContain('202610250100');
+  });
+});
@@ -0,0 +1,120 @@
+import { EMPTY_WATER_TEMP, summarizeDayWaterTemp, type WaterTempSeries } from './alplakes.js';
+import { isInDayWindow } from './navigability.js';
+import { sunTimes } from './sun.js';
+import { parseCsvTimestamp, toZurichDateStr, toLocalHour, utcOffsetMinutes, dirText } from './utils.js';
+import type { MergedData } from './meteo.js';
+import type { CorrectionMode, DayForecast, HourlyData, NavigabilityConfig, SpotConfig, SpotForecast } from './types.js';
+
+/**
+ * Build the SpotForecast object for a single spot.
+ */
+export function buildSpotForecast(
+  spot: SpotConfig,
+  meteoData: MergedData,
+  waterTemps: Map<string, WaterTempSeries>,
+  navConfig: NavigabilityConfig,
+  waterBodiesMap: Map<string, { name: string; alplakesId?: string }>,
+  alplakesKeyForSpot: string | undefined,
+  correctionMode: CorrectionMode | undefined,
+): SpotForecast {
+  const spotData = meteoData.get(spot.pointId);
+  const waterTemp: WaterTempSeries = alplakesKeyForSpot
+    ? (waterTemps.get(alplakesKeyForSpot) ?? EMPTY_WATER_TEMP)
+    : EMPTY_WATER_TEMP;
+
+  // Group hourly data by local date
+  const dayMap = new Map<string, HourlyData[]>();
+
+  if (spotData) {
+    for (const [ts, values] of spotData) {
+      const utcDate = parseCsvTimestamp(ts);
+      const localDate = toZurichDateStr(utcDate, navConfig.timezone);
+      const localHour = toLocalHour(utcDate, navConfig.timezone);
+
+      const hourly: HourlyData = {
+        hour: localHour,
+        time: utcDate.getTime(),
+        utcOffset: utcOffsetMinutes(utcDate, navConfig.timezone),
+        speed: Math.round(values.speed * 10) / 10,
+        gust: Math.round(values.gust * 10) / 10,
+        dir: Math.round(values.dir),
+        dirText: dirText(values.dir),
+        ...(values.sun !== undefined && { sun: Math.round(values.sun) }),
+        ...(values.temp !== undefined && { temp: Math.round(values.temp * 10) / 10 }),
+        ...(values.precip !== undefined && { precip: Math.round(values.precip * 10) / 10 }),
+        ...(values.precipProb !== undefined && { precipProb: Math.round(values.precipProb) }),
+        ...(values.cloud !== undefined && { cloud: values.cloud }),
+        ...(values.thunderstorm && { thunderstorm: true }),
+        ...(values.raw && {
+          raw: {
+            speed: Math.round(values.raw.speed * 10) / 10,
+            gust: Math.round(values.raw.gust * 10) / 10,
+          },
+        }),
+      };
+
+      let dayHours = dayMap.get(localDate);
+      if (!dayHours) {
+        dayHours = [];
+        dayMap.set(localDate, dayHours);
+      }
+      dayHours.push(hourly);
+    }
+  }
+
+  // Sort dates and build DayForecast objects
+  const sortedDates = [...dayMap.keys()].sort();
+  const days: DayForecast[] = sortedDates.map((date) => {
+    // Chronological order: local hours repeat (autumn) or skip (spring) on DST days
+    const hourly = dayMap.get(date)!.sort((a, b) => a.time! - b.time!);
+
+    // Navigation window from sunrise to sunset at the spot (null in polar day/night)
+    const daylight = sunTimes(spot.lat, spot.lon, date, navConfig.timezone) ?? undefined;
+
+    // Display window: the fixed day hours, widened to every hour touching daylight
+    // so summer evenings are kept and winter darkness can be shaded on the chart
+    const dayWindowHours = hourly.filter(
+      (h) => (h.hour >= navConfig.dayStartHour && h.hour < navConfig.dayEndHour) ||
+        (daylight && (h.hour + 1) * 60 > daylight.sunrise && h.hour * 60 < daylight.sunset),
+    );
+
+    // Sum sunshine (minutes) for hours in the navigation window, convert to hours;
+    // left out when the sunshine forecast is missing rather than shown as 0 h
+    const sunHours = dayWindowHours
+      .filter((h) => isInDayWindow(h.hour, navConfig, daylight))
+      .flatMap((h) => (h.sun !== undefined ? [h.sun] : []));
+    const sunshine = sunHours.length > 0
+      ? Math.round((sunHours.reduce((sum, s) => sum + s, 0) / 60) * 10) / 10
+      : undefined;
+
+    const dayWaterTemp = summarizeDayWaterTemp(waterTemp.series, date, navConfig.timezone);
+
+    return {
+      date,
+      ...(sunshine !== undefined && { sunshine }),
+      ...(dayWaterTemp && { waterTemp: dayWaterTemp }),
+      ...(daylight && { daylight }),
+      isNavigable: false,
+      slots: [],
+      hourly: dayWindowHours,
+    };
+  });
+
+  const waterBodyName = spot.waterBodyId
+    ? waterBodiesMap.get(spot.waterBodyId)?.name
+    : undefined;
+
+  return {
+    name: spot.name,
+    pointId: spot.pointId,
+    npa: spot.npa,
+    lat: spot.lat,
+    lon: spot.lon,
+    lake: spot.lake,
+    ...(waterBodyName && { waterBodyName }),
+    // The sample time goes to the provenance block
+    waterTemp: { current: waterTemp.current, depth: waterTemp.depth, series: waterTemp.series },
+    ...(correctionMode && { correction: correctionMode }),
+    days,
+  };
+}
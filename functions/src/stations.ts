@@ -0,0 +1,48 @@
+import { loadCachedMetadata } from './metadataCache.js';
+import type { SmnStation } from './types.js';
+
+const STATIONS_CSV_URL =
+  'https://data.geo.admin.ch/ch.meteoschweiz.messnetz-automatisch/ch.meteoschweiz.messnetz-automatisch_de.csv';
+
+/** Wind stations of the SMN network, also read by the admin station picker. */
+const SMN_STATIONS_DOC = 'config/smnStations';
+
+/**
+ * Download the SwissMetNet network metadata CSV and keep the stations that
+ * measure wind. Columns (semicolon-separated, double-quoted):
+ *   0: Station name, 1: Abbreviation, 10: Latitude, 11: Longitude,
+ *   13: Canton, 14: Measurements
+ */
+async function downloadSmnStations(): Promise<Record<string, SmnStation>> {
+  const response = await fetch(STATIONS_CSV_URL);
+  if (!response.ok) throw new Error(`SMN station list: HTTP ${response.status}`);
+  const lines = (await response.text()).split('\n');
+
+  const stations: Record<string, SmnStation> = {};
+  // Skip header row (index 0)
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const cols = line.split(';').map((c) => c.replace(/^"|"$/g, ''));
+    const [name, id] = cols;
+    if (!id || !name || !(cols[14] ?? '').includes('Wind')) continue;
+
+    const lat = parseFloat(cols[10]);
+    const lon = parseFloat(cols[11]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+
+    const canton = cols[13] ?? '';
+    stations[id] = { name, location: canton ? `${name}, ${canton}` : name, lat, lon };
+  }
+  if (Object.keys(stations).length === 0) throw new Error('SMN station list: no wind station found');
+  return stations;
+}
+
+/**
+ * SwissMetNet wind stations by abbreviation, from `config/smnStations`,
+ * downloaded again once a day. Empty when never downloaded successfully.
+ */
+export async function loadSmnStations(db: FirebaseFirestore.Firestore): Promise<Record<string, SmnStation>> {
+  return loadCachedMetadata(db, SMN_STATIONS_DOC, downloadSmnStations);
+}
@@ -0,0 +1,73 @@
+import type { Daylight } from './types.js';
+
+/** Sun altitude at sunrise and sunset: the upper limb on the horizon, with refraction (0.833° below). */
+const SUNRISE_ZENITH_DEG = 90.833;
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/**
+ * Minutes after local midnight of a UTC instant in the given timezone.
+ */
+function toLocalMinutes(utc: Date, timezone: string): number {
+  const [h, m] = utc
+    .toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hour12: false })
+    .split(':')
+    .map(Number);
+  return (h % 24) * 60 + m;
+}
+
+/**
+ * Sunrise and sunset (sun 0.833° below the horizon) at a place on a local date,
+ * in minutes after local midnight.
+ *
+ * Uses the NOAA solar calculator equations (declination and equation of time
+ * evaluated at local noon), accurate to about a minute at Swiss latitudes.
+ * Returns null when the sun never gets that low or that high (polar day or
+ * night), in which case callers fall back to the fixed day window.
+ */
+export function sunTimes(lat: number, lon: number, date: string, timezone: string): Daylight | null {
+  const [y, m, d] = date.split('-').map(Number);
+  const midnightUtc = Date.UTC(y, m - 1, d);
+
+  // Julian centuries since J2000.0, at 12:00 UTC
+  const t = (midnightUtc / 86_400_000 + 2_440_588 - 2_451_545) / 36_525;
+
+  const meanLong = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const center =
+    Math.sin(rad(meanAnomaly)) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(rad(2 * meanAnomaly)) * (0.019993 - 0.000101 * t) +
+    Math.sin(rad(3 * meanAnomaly)) * 0.000289;
+  const omega = 125.04 - 1934.136 * t;
+  const apparentLong = meanLong + center - 0.00569 - 0.00478 * Math.sin(rad(omega));
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(rad(omega));
+  const declination = Math.asin(Math.sin(rad(obliquity)) * Math.sin(rad(apparentLong)));
+
+  const yy = Math.tan(rad(obliquity / 2)) ** 2;
+  const eqTimeMinutes = 4 * deg(
+    yy * Math.sin(2 * rad(meanLong)) -
+    2 * eccentricity * Math.sin(rad(meanAnomaly)) +
+    4 * eccentricity * yy * Math.sin(rad(meanAnomaly)) * Math.cos(2 * rad(meanLong)) -
+    0.5 * yy * yy * Math.sin(4 * rad(meanLong)) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * rad(meanAnomaly)),
+  );
+
+  const cosHourAngle =
+    (Math.cos(rad(SUNRISE_ZENITH_DEG)) - Math.sin(rad(lat)) * Math.sin(declination)) /
+    (Math.cos(rad(lat)) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+  const hourAngle = deg(Math.acos(cosHourAngle));
+
+  // Solar noon, sunrise and sunset in minutes after 00:00 UTC
+  const solarNoon = 720 - 4 * lon - eqTimeMinutes;
+  const toLocal = (utcMinutes: number) =>
+    toLocalMinutes(new Date(midnightUtc + utcMinutes * 60_000), timezone);
+
+  return {
+    sunrise: toLocal(solarNoon - 4 * hourAngle),
+    sunset: toLocal(solarNoon + 4 * hourAngle),
+  };
+}
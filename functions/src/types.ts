@@ -21,8 +21,43 @@ export interface SpotWebcam {
   title: string;
 }
 
+// --- Per-spot wind correction ---
+
+export type CorrectionMode = 'manual' | 'learned';
+
+/** Correction for one 45° direction sector: corrected = raw × factor + offset. */
+export interface SectorCorrection {
+  speedFactor: number;
+  gustFactor: number;
+  offset: number; // km/h, applied to both speed and gust
+}
+
+export interface SpotCorrection {
+  mode: CorrectionMode;
+  /** 8 sectors starting at N, clockwise (N, NE, E, SE, S, SO, O, NO). Used in manual mode. */
+  sectors: SectorCorrection[];
+}
+
+// --- Per-spot wind direction sectors ---
+
+/** Indices of the 16 compass points (0 = N, 1 = NNE, … 15 = NNO), 22.5° each. */
+export interface WindSectors {
+  /** Directions that work at this spot. When empty, every non-dangerous direction is allowed. */
+  good: number[];
+  /** Directions never considered navigable (e.g. offshore winds). */
+  dangerous: number[];
+  /** Bearing from the shore towards open water, in degrees. Used to label slots on/side/offshore. */
+  waterBearing?: number;
+}
+
+/** Wind exposure relative to the shore: blowing in from the water, along it, or out to the water. */
+export type WindExposure = 'onshore' | 'side-on' | 'offshore';
+
 // --- Firestore config documents ---
 
+/** Forecast source of a spot. Spots without `provider` use MétéoSuisse. */
+export type ForecastProviderId = 'meteoswiss' | 'grid';
+
 export interface SpotConfig {
   id: string;
   name: string;
@@ -35,29 +70,75 @@ export interface SpotConfig {
   alplakesKey: string;
   waterBodyId?: string;
   webcams?: SpotWebcam[];
+  correction?: SpotCorrection;
+  provider?: ForecastProviderId;
+  sectors?: WindSectors;
 }
 
 export interface NavigabilityConfig {
   windSpeedMin: number;
   windSpeedMax: number;
   gustMin: number;
+  gustMax?: number;
+  /** Maximum gust spread (gust − mean speed) in km/h before an hour counts as too gusty. */
+  gustSpreadMax?: number;
   minConsecutiveHours: number;
+  /** Fixed navigation window, used for days without a computed daylight window. */
   dayStartHour: number;
   dayEndHour: number;
+  /** Minutes kept clear after sunrise and before sunset (user preference, 0 by default). */
+  daylightMargin?: number;
   timezone: string;
 }
 
+/** Per-spot thresholds a user can set in their preferences; unset fields use their global values. */
+export type SpotThresholds = Partial<Pick<NavigabilityConfig, 'windSpeedMin' | 'gustMin'>>;
+
+/** A rider's piece of gear (e.g. a 5 m wing) and the wind range it works in. */
+export interface EquipmentProfile {
+  id: string;
+  name: string;
+  windSpeedMin: number;
+  gustMin: number;
+  /** Upper wind limit of this gear; the global windSpeedMax when unset. */
+  windSpeedMax?: number;
+}
+
+/** Stored in `config/refresh`: server-side refresh cadence and data freshness. */
+export interface RefreshConfig {
+  /** When false, only client visits trigger a refresh. */
+  enabled: boolean;
+  /** Minimum age of the stored forecast before the scheduled refresh runs again. */
+  intervalMinutes: number;
+  /** Age after which clients and the callable consider the data stale. */
+  dataTtlMinutes: number;
+}
+
 // --- Forecast data written to Firestore ---
 
 export interface HourlyData {
+  /** Local hour (0–23). Not unique on the autumn DST day, when 2h occurs twice. */
   hour: number;
+  /** Start of the hour, ms since epoch (UTC). Identifies the hour; absent in runs archived before it was added. */
+  time?: number;
+  /** Local offset from UTC at that hour, in minutes (60 or 120 in Zurich). */
+  utcOffset?: number;
   speed: number;
   gust: number;
   dir: number;
   dirText: string;
-  sun: number;
+  sun?: number; // min, absent when the sunshine forecast is missing
+  temp?: number; // °C
+  precip?: number; // mm
+  precipProb?: number; // %
+  cloud?: number; // %, approximated from the weather pictogram
+  thunderstorm?: boolean;
+  raw?: { speed: number; gust: number }; // uncorrected values, set when a correction applies
 }
 
+/** Classification of one forecast hour against the navigability limits. */
+export type WindClass = 'too-light' | 'good' | 'overpowered' | 'too-gusty';
+
 export interface NavigableSlot {
   start: number;
   end: number;
@@ -65,19 +146,46 @@ export interface NavigableSlot {
   avgSpeed: number;
   avgGust: number;
   direction: string;
+  exposure?: WindExposure;
+  /** Name of the equipment profile this slot was computed for. */
+  equipment?: string;
+  /** Quality score 0–100 (duration, steadiness, gusts, direction, sun, water; see navigability.ts). */
+  score?: number;
+}
+
+/** Sunrise and sunset of a day at a spot, in minutes after local midnight. */
+export interface Daylight {
+  sunrise: number;
+  sunset: number;
 }
 
 export interface DayForecast {
   date: string; // YYYY-MM-DD
-  sunshine: number; // hours
+  sunshine?: number; // hours, absent when the sunshine forecast is missing
+  waterTemp?: DayWaterTemp;
+  /** Navigation window of the day; dayStartHour/dayEndHour apply when missing. */
+  daylight?: Daylight;
   isNavigable: boolean;
   slots: NavigableSlot[];
   hourly: HourlyData[];
 }
 
+export interface WaterTempSample {
+  time: number; // ms since epoch
+  temp: number; // °C
+}
+
 export interface WaterTemp {
   current: number | null;
   depth: number;
+  /** Alplakes series from 24h ago to the end of the simulation. */
+  series?: WaterTempSample[];
+}
+
+/** Mean water temperature of a day's morning (6–12h) and afternoon (12–18h). */
+export interface DayWaterTemp {
+  morning: number | null;
+  afternoon: number | null;
 }
 
 export interface SpotForecast {
@@ -89,13 +197,206 @@ export interface SpotForecast {
   lake: string;
   waterBodyName?: string;
   waterTemp: WaterTemp;
+  correction?: CorrectionMode;
+  /** Parameters that could not be refreshed for this spot (previous run reused or missing). */
+  degradedParams?: ForecastParam[];
+  provenance?: SpotProvenance;
   days: DayForecast[];
 }
 
+/** A SwissMetNet wind station, cached in `config/smnStations` under its abbreviation. */
+export interface SmnStation {
+  name: string;
+  location: string; // "Name, Canton"
+  lat: number;
+  lon: number;
+}
+
+/** Location of the forecast actually used: MétéoSuisse local forecast point or model grid cell. */
+export interface ForecastPoint {
+  lat: number;
+  lon: number;
+  name?: string;
+}
+
+/** Where a spot's numbers come from, recorded at each refresh. */
+export interface SpotProvenance {
+  provider: ForecastProviderId;
+  /** The spot's pointId, with the point's location when the source publishes it. */
+  forecastPoint: { id: string; lat?: number; lon?: number; name?: string; distanceKm?: number };
+  /** Model run of each parameter (YYYYMMDDHHmm UTC), from paramStatus. Grid sources don't expose theirs. */
+  runs?: Partial<Record<ForecastParam, string>>;
+  /** Alplakes lake, and the start and publication time of its simulation (ms since epoch). */
+  alplakes?: { lake: string; simulationStart?: number; simulationUpdatedAt?: number };
+  /** SMN station of the current conditions, and its latest observation (YYYYMMDDHHmm UTC) at refresh time. */
+  station?: { id: string; name?: string; distanceKm?: number; observedAt?: string };
+}
+
+/** Forecast parameters fetched from MétéoSuisse, one CSV each. */
+export type ForecastParam = 'speed' | 'gust' | 'dir' | 'sun' | 'temp' | 'precip' | 'precipProb' | 'pictogram';
+
+/** Outcome of the last refresh for one parameter. */
+export interface ParamStatus {
+  status: 'ok' | 'fallback' | 'missing';
+  /** CSV run used: the current one when ok, an older one when fallback. */
+  csvTimestamp?: string;
+  error?: string;
+}
+
+/** Manifest of the latest forecast, `forecasts/latest`; each spot is in `forecasts/latest/spots/{pointId}`. */
 export interface ForecastDocument {
   updatedAt: FirebaseFirestore.Timestamp;
   csvTimestamp: string;
-  spots: SpotForecast[];
+  paramStatus?: Partial<Record<ForecastParam, ParamStatus>>;
+  pointIds: string[];
+}
+
+// --- Refresh status (`forecasts/_status`) ---
+
+/** External data source a refresh depends on. */
+export type Upstream = ForecastProviderId | 'alplakes';
+
+/** An upstream that failed during a refresh attempt. */
+export interface UpstreamFailure {
+  upstream: Upstream;
+  error: string;
+  /** Only part of the data failed (some parameters or lakes); the rest was updated. */
+  partial?: boolean;
+}
+
+/** A refresh that ran. Calls answered 'fresh' or 'in-progress' are not recorded. */
+export interface RefreshAttempt {
+  at: FirebaseFirestore.Timestamp;
+  trigger: 'client' | 'scheduled';
+  /** degraded: the forecast was written, but some upstream failed. */
+  outcome: 'success' | 'degraded' | 'failed';
+  durationMs: number;
+  csvTimestamp?: string;
+  failures: UpstreamFailure[];
+  /** Error that aborted a failed attempt. */
+  error?: string;
+}
+
+/** Kind of a refresh error, all the public status says about it; the message stays in the admin history. */
+export type RefreshErrorCode = 'unavailable' | 'timeout' | 'invalid-data' | 'internal';
+
+/** An upstream failure as published in `forecasts/_status`. */
+export interface PublicUpstreamFailure {
+  upstream: Upstream;
+  code: RefreshErrorCode;
+  partial?: boolean;
+}
+
+/** A refresh attempt as published in `forecasts/_status`, without error messages. */
+export interface PublicRefreshAttempt extends Omit<RefreshAttempt, 'failures' | 'error'> {
+  failures: PublicUpstreamFailure[];
+  errorCode?: RefreshErrorCode;
+}
+
+/** An upstream failing in every attempt since `since`. */
+export interface UpstreamOutage extends PublicUpstreamFailure {
+  since: FirebaseFirestore.Timestamp;
+}
+
+export interface RefreshStatusDocument {
+  lastAttempt: PublicRefreshAttempt;
+  /** Last attempt that wrote a forecast (success or degraded). */
+  lastSuccess?: { at: FirebaseFirestore.Timestamp; csvTimestamp: string };
+  outages: UpstreamOutage[];
+}
+
+/** `refreshHistory/recent`: the attempt log, kept out of the public status document. */
+export interface RefreshHistoryDocument {
+  /** Recent attempts, newest first. */
+  attempts: RefreshAttempt[];
+}
+
+// --- Forecast history (one manifest per MétéoSuisse run, spots in a subcollection) ---
+
+export interface ForecastRun {
+  csvTimestamp: string;
+  runAt: FirebaseFirestore.Timestamp;
+  archivedAt: FirebaseFirestore.Timestamp;
+  /** Spots archived in `forecastHistory/{csvTimestamp}/spots/{pointId}`. */
+  pointIds: string[];
+}
+
+/** One spot's forecast from an archived run. */
+export interface ArchivedSpotRun {
+  csvTimestamp: string;
+  runAt: FirebaseFirestore.Timestamp;
+  spot: SpotForecast;
+}
+
+export interface ForecastRunSummary {
+  csvTimestamp: string;
+  runAt: number; // ms since epoch
+  days: DayForecast[];
+}
+
+// --- Observations & forecast verification ---
+
+export interface StationObservation {
+  stationId: string;
+  timestamp: string; // YYYYMMDDHHmm UTC
+  temp: number | null;
+  windSpeed: number | null;
+  windGust: number | null;
+  windDir: number | null;
+}
+
+export type ObservationSample = Omit<StationObservation, 'stationId'>;
+
+/**
+ * Stored in `observations/{stationId}`: latest 10-minute values. The last 48h of
+ * samples are in `observations/{stationId}/samples/{timestamp}`.
+ */
+export interface ObservationDocument {
+  stationId: string;
+  latest: ObservationSample;
+  updatedAt: FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Running sums for one lead-time bucket. Errors are forecast − observed,
+ * so a positive bias means MétéoSuisse forecasts too much wind.
+ */
+export interface LeadTimeStats {
+  n: number;
+  speedErrSum: number;
+  speedAbsErrSum: number;
+  gustN: number;
+  gustErrSum: number;
+  gustAbsErrSum: number;
+  dirN: number;
+  dirAbsErrSum: number;
+  hits: number; // forecast navigable, observed navigable
+  misses: number; // observed navigable, not forecast
+  falseAlarms: number; // forecast navigable, not observed
+  correctNegatives: number;
+}
+
+/**
+ * Raw (uncorrected) forecast vs observed sums for one direction sector,
+ * short lead times only. Used to learn per-sector corrections.
+ */
+export interface SectorStats {
+  n: number;
+  forecastSpeedSum: number;
+  observedSpeedSum: number;
+  gustN: number;
+  forecastGustSum: number;
+  observedGustSum: number;
+}
+
+export interface VerificationDocument {
+  pointId: string;
+  name: string;
+  stationId: string;
+  lastVerifiedAt: FirebaseFirestore.Timestamp;
+  updatedAt: FirebaseFirestore.Timestamp;
+  leadTimes: Record<string, LeadTimeStats>;
+  sectors?: Record<string, SectorStats>;
 }
 
 // --- Internal parsing types ---
@@ -108,4 +409,6 @@ export interface RawHourlyEntry {
   sun?: number;
 }
 
-export type MeteoParam = 'fu3010h0' | 'fu3010h1' | 'dkl010h0' | 'sre000h0';
+export type MeteoParam =
+  | 'fu3010h0' | 'fu3010h1' | 'dkl010h0' | 'sre000h0'
+  | 'tre200h0' | 'rre150h0' | 'rp0003i0' | 'jww003i0';
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { fromLocalDateHour, toLocalHour, utcOffsetMinutes } from './utils.js';
+
+const TZ = 'Europe/Zurich';
+
+describe('utcOffsetMinutes', () => {
+  it('switches from +1h to +2h at 01:00 UTC on the March change (2026-03-29)', () => {
+    expect(utcOffsetMinutes(new Date('2026-03-29T00:59:00Z'), TZ)).toBe(60);
+    expect(utcOffsetMinutes(new Date('2026-03-29T01:00:00Z'), TZ)).toBe(120);
+  });
+
+  it('switches from +2h to +1h at 01:00 UTC on the October change (2026-10-25)', () => {
+    expect(utcOffsetMinutes(new Date('2026-10-25T00:59:00Z'), TZ)).toBe(120);
+    expect(utcOffsetMinutes(new Date('2026-10-25T01:00:00Z'), TZ)).toBe(60);
+  });
+
+  it('maps the repeated October hour to local 2h twice', () => {
+    expect(toLocalHour(new Date('2026-10-25T00:00:00Z'), TZ)).toBe(2);
+    expect(toLocalHour(new Date('2026-10-25T01:00:00Z'), TZ)).toBe(2);
+  });
+});
+
+describe('fromLocalDateHour', () => {
+  it('round-trips a local hour outside DST changes', () => {
+    expect(fromLocalDateHour('2026-07-14', 15, TZ).toISOString()).toBe('2026-07-14T13:00:00.000Z');
+    expect(fromLocalDateHour('2026-01-14', 15, TZ).toISOString()).toBe('2026-01-14T14:00:00.000Z');
+  });
+});
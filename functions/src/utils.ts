@@ -9,6 +9,33 @@ export function dirText(deg: number): string {
   return dirs[Math.round(deg / 22.5) % 16];
 }
 
+/**
+ * MétéoSuisse pictogram codes announcing thunderstorms (day codes; night codes are +100).
+ */
+const THUNDERSTORM_PICTOGRAMS = new Set([12, 13, 23, 24, 25]);
+
+/**
+ * Approximate cloud cover (%) per day pictogram code. The local-forecast feed
+ * has no numeric cloud-cover parameter, so it is derived from the pictogram.
+ */
+const PICTOGRAM_CLOUD: Record<number, number> = {
+  1: 0, 2: 25, 3: 50, 4: 75, 5: 100,
+  6: 50, 7: 50, 8: 50, 9: 75, 10: 75, 11: 75, 12: 50, 13: 75,
+  14: 100, 15: 100, 16: 100, 17: 100, 18: 100, 19: 100, 20: 100, 21: 100, 22: 100,
+  23: 100, 24: 100, 25: 100, 26: 50, 27: 100, 28: 100,
+};
+
+/**
+ * Decode a MétéoSuisse weather pictogram into cloud cover and thunderstorm risk.
+ */
+export function decodePictogram(code: number): { cloud?: number; thunderstorm: boolean } {
+  const dayCode = code > 100 ? code - 100 : code;
+  return {
+    cloud: PICTOGRAM_CLOUD[dayCode],
+    thunderstorm: THUNDERSTORM_PICTOGRAMS.has(dayCode),
+  };
+}
+
 /**
  * Parse a MétéoSuisse CSV timestamp (YYYYMMDDHHmm UTC) into a Date object.
  */
@@ -39,10 +66,44 @@ export function toLocalHour(utcDate: Date, timezone: string): number {
   );
 }
 
+/**
+ * Offset of the timezone from UTC at a given instant, in minutes
+ * (60 in Zurich winter time, 120 in summer time).
+ */
+export function utcOffsetMinutes(utcDate: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    })
+      .formatToParts(utcDate)
+      .map((p) => [p.type, Number(p.value)]),
+  );
+  const localAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((localAsUtc - utcDate.getTime()) / 60_000);
+}
+
+/**
+ * Inverse of toZurichDateStr/toLocalHour: the UTC Date of a local date and hour.
+ * On the autumn DST change the first of the two matching hours is returned.
+ */
+export function fromLocalDateHour(date: string, hour: number, timezone: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const guess = Date.UTC(y, m - 1, d, hour);
+  for (let offset = -14; offset <= 14; offset++) {
+    const candidate = new Date(guess - offset * 3600_000);
+    if (toLocalHour(candidate, timezone) === hour && toZurichDateStr(candidate, timezone) === date) {
+      return candidate;
+    }
+  }
+  return new Date(guess);
+}
+
 /**
  * Build the MétéoSuisse CSV URL for a given parameter and UTC date.
  */
-export function buildMeteoUrl(param: string, utcDate: Date): string {
+export function buildMeteoUrl(param: string, utcDate: Date, baseUrl = 'https://data.geo.admin.ch'): string {
   const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
   const y = utcDate.getUTCFullYear();
   const m = pad(utcDate.getUTCMonth() + 1);
@@ -50,7 +111,7 @@ export function buildMeteoUrl(param: string, utcDate: Date): string {
   const h = pad(utcDate.getUTCHours());
   const dateStr = `${y}${m}${d}`;
   const dateTimeStr = `${dateStr}${h}00`;
-  return `https://data.geo.admin.ch/ch.meteoschweiz.ogd-local-forecasting/${dateStr}-ch/vnut12.lssw.${dateTimeStr}.${param}.csv`;
+  return `${baseUrl}/ch.meteoschweiz.ogd-local-forecasting/${dateStr}-ch/vnut12.lssw.${dateTimeStr}.${param}.csv`;
 }
 
 /**
@@ -72,3 +133,17 @@ export function formatCsvTimestamp(d: Date): string {
   const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
   return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}`;
 }
+
+/**
+ * Great-circle distance between two points, in km.
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -0,0 +1,257 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { parseCsvTimestamp, toZurichDateStr, toLocalHour } from './utils.js';
+import { SECTOR_NAMES, sectorIndex } from './correction.js';
+import { classifyHour } from './navigability.js';
+import { readArchivedRuns } from './history.js';
+import { readRecentSamples } from './observations.js';
+import type {
+  SpotConfig,
+  NavigabilityConfig,
+  ArchivedSpotRun,
+  LeadTimeStats,
+  SectorStats,
+  StationObservation,
+} from './types.js';
+
+const VERIFICATION_COLLECTION = 'verification';
+const MAX_LEAD_HOURS = 72;
+/** Below this observed speed the wind direction is too unsteady to score. */
+const MIN_SPEED_FOR_DIR = 5;
+/** Only short-range pairs feed the per-sector sums used to learn corrections. */
+const MAX_LEARN_LEAD_HOURS = 24;
+/** 10-minute samples: the last hour always contains one taken on the hour. */
+const SAMPLES_PER_HOUR = 6;
+
+/** Lead-time buckets, in hours after the model run: [min, max). */
+const LEAD_BUCKETS: { key: string; min: number; max: number }[] = [
+  { key: '0-6h', min: 0, max: 6 },
+  { key: '6-12h', min: 6, max: 12 },
+  { key: '12-24h', min: 12, max: 24 },
+  { key: '24-48h', min: 24, max: 48 },
+  { key: '48-72h', min: 48, max: MAX_LEAD_HOURS },
+];
+
+function emptyStats(): LeadTimeStats {
+  return {
+    n: 0,
+    speedErrSum: 0,
+    speedAbsErrSum: 0,
+    gustN: 0,
+    gustErrSum: 0,
+    gustAbsErrSum: 0,
+    dirN: 0,
+    dirAbsErrSum: 0,
+    hits: 0,
+    misses: 0,
+    falseAlarms: 0,
+    correctNegatives: 0,
+  };
+}
+
+/** Smallest angle between two directions, in degrees (0–180). */
+function angleDiff(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/**
+ * Scheduled function: verifyForecasts
+ * Runs every hour, compares the archived forecasts for the hour that just
+ * ended with the SwissMetNet observation of each spot's station (as stored
+ * by ingestObservations), and adds
+ * the errors to per-spot, per-lead-time running sums in `verification/{pointId}`.
+ */
+export const verifyForecasts = onSchedule(
+  {
+    schedule: '5 * * * *',
+    timeZone: 'Europe/Zurich',
+    region: 'europe-west6',
+    memory: '256MiB',
+    timeoutSeconds: 120,
+  },
+  async () => {
+    const db = getFirestore();
+
+    const [spotsSnap, navSnap] = await Promise.all([
+      db.doc('config/spots').get(),
+      db.doc('config/navigability').get(),
+    ]);
+    if (!spotsSnap.exists || !navSnap.exists) {
+      console.log('Missing config, skipping verification');
+      return;
+    }
+
+    const spotsConfig = spotsSnap.data()!.spots as SpotConfig[];
+    const navConfig = navSnap.data() as NavigabilityConfig;
+
+    const observations = await loadHourlyObservations(
+      db,
+      new Set(spotsConfig.map((s) => s.stationId).filter(Boolean)),
+    );
+
+    const now = Date.now();
+    let verified = 0;
+    for (const spot of spotsConfig) {
+      const obs = observations.get(spot.stationId);
+      if (!obs || obs.windSpeed === null) continue;
+
+      try {
+        const { runs } = await readArchivedRuns(db, spot.pointId, now - MAX_LEAD_HOURS * 3600_000, now);
+        if (await verifySpot(db, spot, obs, runs, navConfig)) verified++;
+      } catch (err) {
+        console.error(`Verification failed for spot ${spot.pointId}:`, err);
+      }
+    }
+
+    console.log(`Verification complete: ${verified} spots updated`);
+  },
+);
+
+/**
+ * Read the ingested observations and pick, per station, the most recent sample
+ * taken on the hour (falling back to the latest one).
+ * Returns Map<stationId, observation>.
+ */
+async function loadHourlyObservations(
+  db: FirebaseFirestore.Firestore,
+  stationIds: Set<string>,
+): Promise<Map<string, StationObservation>> {
+  const result = new Map<string, StationObservation>();
+  if (stationIds.size === 0) return result;
+
+  await Promise.all([...stationIds].map(async (stationId) => {
+    const samples = await readRecentSamples(db, stationId, SAMPLES_PER_HOUR);
+    const onTheHour = [...samples].reverse().find((o) => o.timestamp.slice(10, 12) === '00');
+    const sample = onTheHour ?? samples[samples.length - 1];
+    if (sample) result.set(stationId, { stationId, ...sample });
+  }));
+  return result;
+}
+
+/**
+ * Score every archived run against one observation for a single spot.
+ * Returns false when this observation hour was already counted. The check and
+ * the increments run in one transaction, so overlapping runs (e.g. a retry and
+ * the next scheduled run) can't count the same hour twice.
+ */
+async function verifySpot(
+  db: FirebaseFirestore.Firestore,
+  spot: SpotConfig,
+  obs: StationObservation,
+  runs: ArchivedSpotRun[],
+  navConfig: NavigabilityConfig,
+): Promise<boolean> {
+  // Snap the 10-minute observation to the nearest forecast hour
+  const obsMs = parseCsvTimestamp(obs.timestamp).getTime();
+  const validMs = Math.round(obsMs / 3600_000) * 3600_000;
+  const validDate = new Date(validMs);
+  const localDate = toZurichDateStr(validDate, navConfig.timezone);
+  const localHour = toLocalHour(validDate, navConfig.timezone);
+
+  const observedSpeed = obs.windSpeed!;
+  const observedNavigable =
+    obs.windGust !== null &&
+    classifyHour({ speed: observedSpeed, gust: obs.windGust }, navConfig) === 'good';
+
+  const stats = new Map<string, LeadTimeStats>();
+  const sectorStats = new Map<string, SectorStats>();
+
+  for (const run of runs) {
+    const leadHours = (validMs - run.runAt.toMillis()) / 3600_000;
+    const bucket = LEAD_BUCKETS.find((b) => leadHours >= b.min && leadHours < b.max);
+    if (!bucket) continue;
+
+    const hourly = run.spot.days
+      .find((d) => d.date === localDate)
+      // Match on the UTC time: the local hour is ambiguous on the autumn DST day
+      ?.hourly.find((h) => (h.time !== undefined ? h.time === validMs : h.hour === localHour));
+    if (!hourly) continue;
+
+    let s = stats.get(bucket.key);
+    if (!s) {
+      s = emptyStats();
+      stats.set(bucket.key, s);
+    }
+
+    // Score the raw MétéoSuisse output: a corrected value would hide the model's bias
+    const forecastSpeed = hourly.raw?.speed ?? hourly.speed;
+    const forecastGust = hourly.raw?.gust ?? hourly.gust;
+
+    const speedErr = forecastSpeed - observedSpeed;
+    s.n++;
+    s.speedErrSum += speedErr;
+    s.speedAbsErrSum += Math.abs(speedErr);
+
+    if (obs.windGust !== null) {
+      const gustErr = forecastGust - obs.windGust;
+      s.gustN++;
+      s.gustErrSum += gustErr;
+      s.gustAbsErrSum += Math.abs(gustErr);
+
+      const forecastNavigable = classifyHour({ speed: forecastSpeed, gust: forecastGust }, navConfig) === 'good';
+      if (forecastNavigable && observedNavigable) s.hits++;
+      else if (observedNavigable) s.misses++;
+      else if (forecastNavigable) s.falseAlarms++;
+      else s.correctNegatives++;
+    }
+
+    if (obs.windDir !== null && observedSpeed >= MIN_SPEED_FOR_DIR) {
+      s.dirN++;
+      s.dirAbsErrSum += angleDiff(hourly.dir, obs.windDir);
+    }
+
+    // Learning too uses the raw model output, not a previously corrected value
+    if (leadHours < MAX_LEARN_LEAD_HOURS) {
+      const sectorKey = SECTOR_NAMES[sectorIndex(hourly.dir)];
+      let ss = sectorStats.get(sectorKey);
+      if (!ss) {
+        ss = { n: 0, forecastSpeedSum: 0, observedSpeedSum: 0, gustN: 0, forecastGustSum: 0, observedGustSum: 0 };
+        sectorStats.set(sectorKey, ss);
+      }
+      ss.n++;
+      ss.forecastSpeedSum += forecastSpeed;
+      ss.observedSpeedSum += observedSpeed;
+      if (obs.windGust !== null) {
+        ss.gustN++;
+        ss.forecastGustSum += forecastGust;
+        ss.observedGustSum += obs.windGust;
+      }
+    }
+  }
+
+  if (stats.size === 0) return false;
+
+  const toIncrements = (sums: object) => Object.fromEntries(
+    Object.entries(sums).map(([field, value]) => [field, FieldValue.increment(value as number)]),
+  );
+
+  const leadTimes: Record<string, Record<string, FieldValue>> = {};
+  for (const [key, s] of stats) {
+    leadTimes[key] = toIncrements(s);
+  }
+  const sectors: Record<string, Record<string, FieldValue>> = {};
+  for (const [key, ss] of sectorStats) {
+    sectors[key] = toIncrements(ss);
+  }
+
+  const ref = db.collection(VERIFICATION_COLLECTION).doc(spot.pointId);
+  return db.runTransaction(async (tx) => {
+    const existing = await tx.get(ref);
+    const lastVerifiedAt = existing.exists
+      ? (existing.data()!.lastVerifiedAt as Timestamp | undefined)
+      : undefined;
+    if (lastVerifiedAt && lastVerifiedAt.toMillis() >= validMs) return false;
+
+    tx.set(ref, {
+      pointId: spot.pointId,
+      name: spot.name,
+      stationId: spot.stationId,
+      lastVerifiedAt: Timestamp.fromMillis(validMs),
+      updatedAt: FieldValue.serverTimestamp(),
+      leadTimes,
+      sectors,
+    }, { merge: true });
+    return true;
+  });
+}
@@ -1,11 +1,14 @@
 import { lazy, Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useForecast } from './hooks/useForecast';
+import { useRefreshStatus } from './hooks/useRefreshStatus';
 import { useConfig } from './hooks/useConfig';
 import { useCurrentWeather } from './hooks/useCurrentWeather';
 import { useEffectiveConfig } from './hooks/useEffectiveConfig';
 import { useAuth } from './contexts/AuthContext';
 import { useTheme } from './hooks/useTheme';
 import { useFavorites } from './hooks/useFavorites';
+import { useSpotOverrides } from './hooks/useSpotOverrides';
+import { useSizing } from './hooks/useSizing';
 import { Header } from './components/Header';
 import { SpotCard, SpotCardSkeleton } from './components/SpotCard';
 import { ViewToggle } from './components/ViewToggle';
@@ -16,7 +19,8 @@ import { UpdatePrompt } from './components/UpdatePrompt';
 import { InstallBanner } from './components/InstallBanner';
 import { useAccountPromo } from './hooks/useAccountPromo';
 import type { PromoTrigger } from './hooks/useAccountPromo';
-import { calculateSlots } from './utils/navigability';
+import { calculateEquipmentSlots } from './utils/navigability';
+import { loadRule } from './utils/rule';
 import type { SpotConfig, SpotForecast } from './types/forecast';
 
 const SpotMap = lazy(() => import('./components/SpotMap'));
@@ -31,26 +35,44 @@ function isSpotNavigable(spot: SpotForecast, forecastDays: number): boolean {
     .some((d) => d.isNavigable);
 }
 
-/** Get the best navigable slot (first slot of first navigable day) for a spot */
+/** Get the best navigable slot (highest score of the first navigable day) for a spot */
 function getBestSlot(spot: SpotForecast, forecastDays: number) {
   const today = new Date();
   const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
   const displayDays = spot.days.filter((d) => d.date >= todayStr).slice(0, forecastDays);
   for (const day of displayDays) {
-    if (day.slots.length > 0) return day.slots[0];
+    if (day.slots.length > 0) {
+      return day.slots.reduce((best, s) => ((s.score ?? 0) > (best.score ?? 0) ? s : best));
+    }
   }
   return null;
 }
 
+type SortMode = 'favorites' | 'score';
+
+const SORT_STORAGE_KEY = 'windspotter_sort';
+
 function App() {
-  const { data, loading, refreshing, error, refresh, dismissError } = useForecast();
   const { spots: spotConfigs, navigability: globalNavigability, loading: configLoading } = useConfig();
   const navigability = useEffectiveConfig(globalNavigability);
   const { user, loading: authLoading, preferences } = useAuth();
+  // Only the spots the user shows are downloaded
+  const visiblePointIds = useMemo(() => {
+    if (configLoading || authLoading) return null;
+    const sel = preferences?.selectedSpots;
+    return sel && sel.length > 0 ? sel : spotConfigs.map((s) => s.pointId);
+  }, [configLoading, authLoading, preferences?.selectedSpots, spotConfigs]);
+  const { data, loading, refreshing, error, refresh, dismissError } = useForecast(visiblePointIds);
+  const refreshStatus = useRefreshStatus();
   useTheme(preferences?.themePreference);
   const forecastDays = preferences?.forecastDays ?? 2;
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [sortMode, setSortMode] = useState<SortMode>(
+    () => (localStorage.getItem(SORT_STORAGE_KEY) === 'score' ? 'score' : 'favorites'),
+  );
   const { isFavorite, toggleFavorite } = useFavorites();
+  const { getOverride, setOverride } = useSpotOverrides();
+  const sizing = useSizing();
 
   // Accordion state: which spots are expanded (spotPointId → boolean)
   const [expandedSpots, setExpandedSpots] = useState<Record<string, boolean>>({});
@@ -62,9 +84,9 @@ function App() {
   // Auto-refresh forecast when config spots don't match forecast spots (max 3 retries per config change)
   const syncRetriesRef = useRef({ key: '', count: 0 });
   useEffect(() => {
-    if (!data?.spots || refreshing) return;
+    if (!data || refreshing) return;
 
-    const forecastPointIds = new Set(data.spots.map((s) => s.pointId));
+    const forecastPointIds = new Set(data.pointIds ?? []);
     const outOfSync = spotConfigs.some((s) => !forecastPointIds.has(s.pointId));
     if (!outOfSync) return;
 
@@ -75,7 +97,7 @@ function App() {
 
     syncRetriesRef.current = { key: configKey, count: count + 1 };
     refresh({ force: true });
-  }, [spotConfigs, data?.spots, refreshing, refresh]);
+  }, [spotConfigs, data, refreshing, refresh]);
 
   // Compute navigable slots client-side with per-user thresholds
   const configPointIds = useMemo(() => new Set(spotConfigs.map((s) => s.pointId)), [spotConfigs]);
@@ -84,6 +106,13 @@ function App() {
     for (const s of spotConfigs) map.set(s.pointId, s);
     return map;
   }, [spotConfigs]);
+  // Equipment profiles in use: the one selected in the header, or all of them
+  const equipmentProfiles = useMemo(() => {
+    const all = preferences?.equipment ?? [];
+    const active = all.find((e) => e.id === preferences?.activeEquipmentId);
+    return active ? [active] : all;
+  }, [preferences?.equipment, preferences?.activeEquipmentId]);
+  const navigabilityRule = useMemo(() => loadRule(preferences?.navigabilityRule), [preferences?.navigabilityRule]);
   const enrichedSpots = useMemo(() => {
     if (!data?.spots || !navigability) return [];
     return data.spots
@@ -94,12 +123,17 @@ function App() {
           ...spot,
           ...(cfg && { name: cfg.name, lat: cfg.lat, lon: cfg.lon, lake: cfg.lake }),
           days: spot.days.map((day) => {
-            const slots = calculateSlots(day.hourly, navigability);
+            const slots = calculateEquipmentSlots(day.hourly, navigability, equipmentProfiles, getOverride(spot.pointId), {
+              sectors: cfg?.sectors,
+              rule: navigabilityRule,
+              waterTemp: day.waterTemp,
+              daylight: day.daylight,
+            });
             return { ...day, slots, isNavigable: slots.length > 0 };
           }),
         };
       });
-  }, [data?.spots, navigability, configPointIds, configByPointId]);
+  }, [data?.spots, navigability, navigabilityRule, equipmentProfiles, getOverride, configPointIds, configByPointId]);
 
   // Map pointId → stationId from config so we can look up current weather per spot
   const stationByPointId = useMemo(() => {
@@ -133,6 +167,11 @@ function App() {
     sessionStorage.setItem('windspotter_expanded', JSON.stringify(expandedSpots));
   }, [expandedSpots]);
 
+  const changeSortMode = useCallback((mode: SortMode) => {
+    setSortMode(mode);
+    localStorage.setItem(SORT_STORAGE_KEY, mode);
+  }, []);
+
   const toggleSpot = useCallback((pointId: string) => {
     setExpandedSpots((prev) => ({ ...prev, [pointId]: !prev[pointId] }));
   }, []);
@@ -178,9 +217,19 @@ function App() {
     },
     [isFavorite],
   );
+  // Best conditions first: score of each spot's best slot, ties by favorites then name
+  const bestScoreFirst = useCallback(
+    (a: SpotForecast, b: SpotForecast) => {
+      const diff = (getBestSlot(b, forecastDays)?.score ?? 0) - (getBestSlot(a, forecastDays)?.score ?? 0);
+      return diff !== 0 ? diff : favThenAlpha(a, b);
+    },
+    [forecastDays, favThenAlpha],
+  );
   const navigableSpots = useMemo(
-    () => [...visibleSpots].filter((s) => isSpotNavigable(s, forecastDays)).sort(favThenAlpha),
-    [visibleSpots, forecastDays, favThenAlpha],
+    () => [...visibleSpots]
+      .filter((s) => isSpotNavigable(s, forecastDays))
+      .sort(sortMode === 'score' ? bestScoreFirst : favThenAlpha),
+    [visibleSpots, forecastDays, sortMode, bestScoreFirst, favThenAlpha],
   );
   const nonNavigableSpots = useMemo(
     () => [...visibleSpots].filter((s) => !isSpotNavigable(s, forecastDays)).sort(favThenAlpha),
@@ -238,7 +287,7 @@ function App() {
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white">
-      <Header updatedAt={updatedAt} refreshing={refreshing} onRefresh={() => refresh()} onSettingsAuthNeeded={() => promptAccountCreation('settings')} />
+      <Header updatedAt={updatedAt} csvTimestamp={data?.csvTimestamp} paramStatus={data?.paramStatus} refreshStatus={refreshStatus} refreshing={refreshing} onRefresh={() => refresh()} onSettingsAuthNeeded={() => promptAccountCreation('settings')} />
 
       <InstallBanner />
 
@@ -345,7 +394,16 @@ function App() {
 
             {viewMode === 'list' ? (
               <>
-                <div className="flex justify-end mb-2">
+                <div className="flex justify-between items-center mb-2">
+                  <select
+                    value={sortMode}
+                    onChange={(e) => changeSortMode(e.target.value as SortMode)}
+                    aria-label="Tri des spots"
+                    className="text-sm bg-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 outline-none cursor-pointer"
+                  >
+                    <option value="favorites">Favoris d'abord</option>
+                    <option value="score">Meilleures conditions</option>
+                  </select>
                   <button
                     onClick={toggleAll}
                     className="text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors"
@@ -371,6 +429,11 @@ function App() {
                         isFavorite={isFavorite(spot.pointId)}
                         onToggleFavorite={() => toggleFavorite(spot.pointId, () => promptAccountCreation('favorites'))}
                         webcams={configByPointId.get(spot.pointId)?.webcams}
+                        thresholdOverride={getOverride(spot.pointId)}
+                        onThresholdOverrideChange={(o) => setOverride(spot.pointId, o, () => promptAccountCreation('settings'))}
+                        equipmentProfiles={equipmentProfiles}
+                        navigabilityRule={navigabilityRule}
+                        sizing={sizing}
                       />
                     ))}
                   </div>
@@ -409,6 +472,11 @@ function App() {
                         isFavorite={isFavorite(spot.pointId)}
                         onToggleFavorite={() => toggleFavorite(spot.pointId, () => promptAccountCreation('favorites'))}
                         webcams={configByPointId.get(spot.pointId)?.webcams}
+                        thresholdOverride={getOverride(spot.pointId)}
+                        onThresholdOverrideChange={(o) => setOverride(spot.pointId, o, () => promptAccountCreation('settings'))}
+                        equipmentProfiles={equipmentProfiles}
+                        navigabilityRule={navigabilityRule}
+                        sizing={sizing}
                       />
                     ))}
                   </div>
@@ -437,6 +505,7 @@ function App() {
                   stationByPointId={stationByPointId}
                   forecastDays={forecastDays}
                   navigability={navigability}
+                  sizing={sizing}
                 />
               </Suspense>
             )}
@@ -4,11 +4,31 @@ import { httpsCallable } from 'firebase/functions';
 import { db, functions } from '../config/firebase';
 import { Modal } from './Modal';
 import { SpotLocationPicker, type SearchResult } from './SpotLocationPicker';
-import type { NavigabilityConfig, SpotConfig, SpotWebcam, WaterBody, WaterBodyType } from '../types/forecast';
+import { SizeChartEditor } from './SizeChartEditor';
+import { RefreshHistory } from './RefreshHistory';
+import type { CorrectionMode, ForecastProviderId, LeadTimeStats, NavigabilityConfig, RefreshConfig, SectorCorrection, SizeCharts, Sport, SpotConfig, SpotWebcam, VerificationDocument, WaterBody, WaterBodyType, WindSectors } from '../types/forecast';
 import { findNearestAlplakesLake } from '../data/alplakesLakes';
 import { type SmnStation, SMN_STATIONS_FALLBACK, fetchSmnStations } from '../utils/smnStations';
+import { relativeTime } from '../utils/format';
+import { REFRESH_MINUTES_MAX, REFRESH_MINUTES_MIN, clampRefreshMinutes } from '../utils/refreshConfig';
+import { DEFAULT_SIZE_CHARTS, SPORT_LABELS, sizeChartError } from '../utils/sizing';
 
-type Tab = 'settings' | 'users' | 'spots' | 'waterBodies';
+type Tab = 'settings' | 'users' | 'spots' | 'waterBodies' | 'verification';
+
+const CORRECTION_SECTORS = ['N', 'NE', 'E', 'SE', 'S', 'SO', 'O', 'NO'];
+
+function identitySectors(): SectorCorrection[] {
+  return CORRECTION_SECTORS.map(() => ({ speedFactor: 1, gustFactor: 1, offset: 0 }));
+}
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSO', 'SO', 'OSO', 'O', 'ONO', 'NO', 'NNO',
+];
+
+function hasSectors(sectors?: WindSectors): sectors is WindSectors {
+  return !!sectors && (sectors.good.length > 0 || sectors.dangerous.length > 0 || sectors.waterBearing != null);
+}
 
 const WATER_BODY_TYPE_LABELS: Record<WaterBodyType, string> = {
   lake: 'Lac',
@@ -74,12 +94,16 @@ export function AdminModal({ open, onClose }: AdminModalProps) {
           <button className={tabClass(tab === 'waterBodies')} onClick={() => setTab('waterBodies')}>
             Plans d'eau
           </button>
+          <button className={tabClass(tab === 'verification')} onClick={() => setTab('verification')}>
+            Vérification
+          </button>
         </div>
 
         {tab === 'settings' && <SettingsTab open={open} />}
         {tab === 'users' && <UsersTab open={open} />}
         {tab === 'spots' && <SpotsTab open={open} />}
         {tab === 'waterBodies' && <WaterBodiesTab open={open} />}
+        {tab === 'verification' && <VerificationTab open={open} />}
       </div>
     </Modal>
   );
@@ -92,9 +116,17 @@ function SettingsTab({ open }: { open: boolean }) {
   const [saving, setSaving] = useState(false);
   const [windSpeedMin, setWindSpeedMin] = useState(15);
   const [gustMin, setGustMin] = useState(25);
+  const [windSpeedMax, setWindSpeedMax] = useState(40);
+  const [gustMax, setGustMax] = useState<number | ''>('');
+  const [gustSpreadMax, setGustSpreadMax] = useState<number | ''>('');
   const [dayStartHour, setDayStartHour] = useState(7);
   const [dayEndHour, setDayEndHour] = useState(20);
   const [notificationHour, setNotificationHour] = useState(8);
+  const [refreshEnabled, setRefreshEnabled] = useState(true);
+  const [refreshIntervalMinutes, setRefreshIntervalMinutes] = useState(60);
+  const [dataTtlMinutes, setDataTtlMinutes] = useState(60);
+  const [sizeCharts, setSizeCharts] = useState<SizeCharts>(DEFAULT_SIZE_CHARTS);
+  const [chartSport, setChartSport] = useState<Sport>('wing');
   const [sendingTest, setSendingTest] = useState(false);
   const [testResult, setTestResult] = useState<{ ok: boolean; msg: string } | null>(null);
 
@@ -105,35 +137,69 @@ function SettingsTab({ open }: { open: boolean }) {
     Promise.all([
       getDoc(doc(db, 'config', 'navigability')),
       getDoc(doc(db, 'config', 'notifications')),
-    ]).then(([navSnap, notifSnap]) => {
+      getDoc(doc(db, 'config', 'refresh')),
+      getDoc(doc(db, 'config', 'sizeCharts')),
+    ]).then(([navSnap, notifSnap, refreshSnap, chartsSnap]) => {
       if (navSnap.exists()) {
         const data = navSnap.data() as NavigabilityConfig;
         setWindSpeedMin(data.windSpeedMin);
         setGustMin(data.gustMin);
+        setWindSpeedMax(data.windSpeedMax);
+        setGustMax(data.gustMax ?? '');
+        setGustSpreadMax(data.gustSpreadMax ?? '');
         setDayStartHour(data.dayStartHour);
         setDayEndHour(data.dayEndHour);
       }
       if (notifSnap.exists()) {
         setNotificationHour(notifSnap.data().hour ?? 8);
       }
+      if (refreshSnap.exists()) {
+        const data = refreshSnap.data() as Partial<RefreshConfig>;
+        setRefreshEnabled(data.enabled ?? true);
+        setRefreshIntervalMinutes(clampRefreshMinutes(data.intervalMinutes));
+        setDataTtlMinutes(clampRefreshMinutes(data.dataTtlMinutes));
+      }
+      setSizeCharts(chartsSnap.exists()
+        ? { ...DEFAULT_SIZE_CHARTS, ...(chartsSnap.data() as Partial<SizeCharts>) }
+        : DEFAULT_SIZE_CHARTS);
       setLoading(false);
     }).catch(() => setLoading(false));
   }, [open]);
 
+  // Invalid charts (e.g. an emptied reference weight) would divide sizes by zero
+  const invalidCharts = (Object.keys(SPORT_LABELS) as Sport[]).filter((sport) => sizeChartError(sizeCharts[sport]) !== null);
+  const chartsInvalid = invalidCharts.length > 0;
+
   async function handleSave() {
+    if (chartsInvalid) return;
     setSaving(true);
     try {
       const snap = await getDoc(doc(db, 'config', 'navigability'));
-      const existing = snap.exists() ? snap.data() as NavigabilityConfig : {};
+      const existing: Partial<NavigabilityConfig> = snap.exists() ? { ...snap.data() as NavigabilityConfig } : {};
+      // Cleared upper limits are removed rather than stored empty
+      delete existing.gustMax;
+      delete existing.gustSpreadMax;
       await Promise.all([
         setDoc(doc(db, 'config', 'navigability'), {
           ...existing,
           windSpeedMin,
+          windSpeedMax,
           gustMin,
+          ...(gustMax !== '' && { gustMax }),
+          ...(gustSpreadMax !== '' && { gustSpreadMax }),
           dayStartHour,
           dayEndHour,
         }),
         setDoc(doc(db, 'config', 'notifications'), { hour: notificationHour }),
+        setDoc(doc(db, 'config', 'refresh'), {
+          enabled: refreshEnabled,
+          intervalMinutes: clampRefreshMinutes(refreshIntervalMinutes),
+          dataTtlMinutes: clampRefreshMinutes(dataTtlMinutes),
+        } satisfies RefreshConfig),
+        setDoc(doc(db, 'config', 'sizeCharts'), {
+          wing: { ...sizeCharts.wing, rows: [...sizeCharts.wing.rows].sort((a, b) => a.wind - b.wind) },
+          kite: { ...sizeCharts.kite, rows: [...sizeCharts.kite.rows].sort((a, b) => a.wind - b.wind) },
+        } satisfies SizeCharts),
       ]);
     } catch (err) {
       console.error('Failed to save config:', err);
@@ -193,6 +259,49 @@ function SettingsTab({ open }: { open: boolean }) {
         />
       </div>
 
+      <div>
+        <label className={labelClass}>Vent maximum (km/h)</label>
+        <input
+          type="number"
+          min={10}
+          max={80}
+          step={1}
+          value={windSpeedMax}
+          onChange={(e) => setWindSpeedMax(Number(e.target.value))}
+          className={inputClass}
+        />
+        <p className="mt-1 text-xs text-slate-400">Au-delà, l'heure est considérée comme trop forte.</p>
+      </div>
+
+      <div>
+        <label className={labelClass}>Rafales maximum (km/h)</label>
+        <input
+          type="number"
+          min={10}
+          max={100}
+          step={1}
+          value={gustMax}
+          placeholder="Pas de limite"
+          onChange={(e) => setGustMax(e.target.value === '' ? '' : Number(e.target.value))}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Écart rafales − vent maximum (km/h)</label>
+        <input
+          type="number"
+          min={0}
+          max={50}
+          step={1}
+          value={gustSpreadMax}
+          placeholder="Pas de limite"
+          onChange={(e) => setGustSpreadMax(e.target.value === '' ? '' : Number(e.target.value))}
+          className={inputClass}
+        />
+        <p className="mt-1 text-xs text-slate-400">Au-delà, l'heure est considérée comme trop rafaleuse.</p>
+      </div>
+
       <div>
         <label className={labelClass}>Heure de début de navigation</label>
         <input
@@ -219,6 +328,9 @@ function SettingsTab({ open }: { open: boolean }) {
           className={inputClass}
         />
         <p className="mt-1 text-xs text-slate-400">{dayEndHour}h00</p>
+        <p className="mt-1 text-xs text-slate-400">
+          Les créneaux suivent le lever et le coucher du soleil à chaque spot ; ces heures délimitent le graphique et servent à défaut
+        </p>
       </div>
 
       {/* Notification hour */}
@@ -238,13 +350,87 @@ function SettingsTab({ open }: { open: boolean }) {
         </p>
       </div>
 
+      {/* Server-side refresh */}
+      <div className="pt-3 border-t border-slate-200 dark:border-slate-700 space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={refreshEnabled}
+            onChange={(e) => setRefreshEnabled(e.target.checked)}
+            className="accent-teal-600"
+          />
+          Rafraîchissement automatique côté serveur
+        </label>
+        <div>
+          <label className={labelClass}>Intervalle de rafraîchissement</label>
+          <select
+            value={refreshIntervalMinutes}
+            onChange={(e) => setRefreshIntervalMinutes(Number(e.target.value))}
+            disabled={!refreshEnabled}
+            className={`${inputClass} disabled:opacity-50`}
+          >
+            {[30, 60, 120, 180].map((m) => (
+              <option key={m} value={m}>{m < 60 ? `${m} min` : `${m / 60}h`}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">
+            Vérifié toutes les 10 minutes, même si personne n'ouvre l'application
+          </p>
+        </div>
+        <div>
+          <label className={labelClass}>Durée de validité des données (min)</label>
+          <input
+            type="number"
+            min={REFRESH_MINUTES_MIN}
+            max={REFRESH_MINUTES_MAX}
+            step={5}
+            value={dataTtlMinutes}
+            onChange={(e) => setDataTtlMinutes(Number(e.target.value))}
+            onBlur={() => setDataTtlMinutes(clampRefreshMinutes(dataTtlMinutes))}
+            className={inputClass}
+          />
+          <p className="mt-1 text-xs text-slate-400">
+            Au-delà, l'ouverture de l'application déclenche une mise à jour
+          </p>
+        </div>
+        <RefreshHistory />
+      </div>
+
+      {/* Default size charts */}
+      <div className="pt-3 border-t border-slate-200 dark:border-slate-700 space-y-2">
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>Barème de tailles</label>
+          <select
+            value={chartSport}
+            onChange={(e) => setChartSport(e.target.value as Sport)}
+            className="px-2 py-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-xs"
+          >
+            {(Object.keys(SPORT_LABELS) as Sport[]).map((sport) => (
+              <option key={sport} value={sport}>{SPORT_LABELS[sport]}</option>
+            ))}
+          </select>
+        </div>
+        <SizeChartEditor
+          value={sizeCharts[chartSport]}
+          onChange={(chart) => setSizeCharts((prev) => ({ ...prev, [chartSport]: chart }))}
+        />
+        <p className="text-xs text-slate-400">
+          Taille conseillée selon le vent, pour le poids de référence ; ajustée au poids de chaque utilisateur
+        </p>
+      </div>
+
       <button
         onClick={handleSave}
-        disabled={saving}
+        disabled={saving || chartsInvalid}
         className="w-full py-2.5 rounded-lg bg-teal-600 text-white font-medium hover:bg-teal-700 transition-colors disabled:opacity-50 text-sm"
       >
         {saving ? 'Enregistrement...' : 'Enregistrer'}
       </button>
+      {chartsInvalid && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          Barème de tailles invalide ({invalidCharts.map((sport) => SPORT_LABELS[sport]).join(', ')}) : corrige-le avant d'enregistrer.
+        </p>
+      )}
 
       {/* Test notification */}
       <div className="pt-3 border-t border-slate-200 dark:border-slate-700">
@@ -439,6 +625,10 @@ function SpotsTab({ open }: { open: boolean }) {
   const [adding, setAdding] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
 
+  // Wind correction state
+  const [correctionMode, setCorrectionMode] = useState<CorrectionMode | ''>('');
+  const [correctionSectors, setCorrectionSectors] = useState<SectorCorrection[]>(identitySectors);
+
   // Webcam picker state
   const [selectedWebcams, setSelectedWebcams] = useState<SpotWebcam[]>([]);
   const [webcamSearchResults, setWebcamSearchResults] = useState<Array<{
@@ -478,7 +668,7 @@ function SpotsTab({ open }: { open: boolean }) {
         setLoading(false);
       });
 
-    // Load complete SMN station list (with wind data) from MeteoSuisse open data
+    // Load complete SMN station list (with wind data), cached by the refresh function
     setStationsLoading(true);
     fetchSmnStations()
       .then((stations) => {
@@ -503,7 +693,7 @@ function SpotsTab({ open }: { open: boolean }) {
         if (data.results?.length) {
           const npa = data.results[0].attributes?.plz ?? 0;
           if (npa >= 1000 && npa <= 9999) {
-            setNewSpot((prev) => prev ? { ...prev, npa, pointId: `${npa}00` } : prev);
+            setNewSpot((prev) => prev && prev.provider !== 'grid' ? { ...prev, npa, pointId: `${npa}00` } : prev);
           }
         }
       } catch { /* NPA will remain unfilled, admin can set manually */ }
@@ -560,6 +750,8 @@ function SpotsTab({ open }: { open: boolean }) {
     setSelectedWaterBodyId(spot.waterBodyId ?? spot.lake ?? '');
     setSelectedStation(spot.stationId);
     setSelectedWebcams(spot.webcams ?? []);
+    setCorrectionMode(spot.correction?.mode ?? '');
+    setCorrectionSectors(spot.correction?.sectors?.length === CORRECTION_SECTORS.length ? spot.correction.sectors : identitySectors());
     setWebcamSearchResults(null);
     setWebcamError(null);
     setEditingSpotId(spot.id);
@@ -571,12 +763,17 @@ function SpotsTab({ open }: { open: boolean }) {
     if (!newSpot) return 'Placez un marqueur sur la carte.';
     if (!newSpot.name?.trim()) return 'Le nom est requis.';
     if (!newSpot.id?.trim()) return "L'identifiant est requis.";
-    if (!newSpot.npa || newSpot.npa < 1000 || newSpot.npa > 9999) return 'Le NPA doit être un code postal suisse valide (4 chiffres).';
+    const isGrid = newSpot.provider === 'grid';
+    if (!isGrid && (!newSpot.npa || newSpot.npa < 1000 || newSpot.npa > 9999)) return 'Le NPA doit être un code postal suisse valide (4 chiffres).';
     if (!newSpot.lat || !newSpot.lon) return 'Les coordonnées sont requises.';
-    if (!selectedStation) return 'Sélectionnez une station SMN.';
+    if (!isGrid && !selectedStation) return 'Sélectionnez une station SMN.';
+    if (correctionMode === 'manual' && correctionSectors.some((c) =>
+      !(c.speedFactor > 0) || !(c.gustFactor > 0) || !Number.isFinite(c.offset))) {
+      return 'Les facteurs de correction doivent être positifs.';
+    }
     const otherSpots = editingSpotId ? spots.filter((s) => s.id !== editingSpotId) : spots;
     if (otherSpots.some((s) => s.id === newSpot.id)) return `Un spot avec l'identifiant "${newSpot.id}" existe déjà.`;
-    if (otherSpots.some((s) => s.npa === newSpot.npa)) return `Un spot avec le NPA ${newSpot.npa} existe déjà.`;
+    if (!isGrid && otherSpots.some((s) => s.npa === newSpot.npa)) return `Un spot avec le NPA ${newSpot.npa} existe déjà.`;
     return null;
   }
 
@@ -589,11 +786,12 @@ function SpotsTab({ open }: { open: boolean }) {
     setAdding(true);
     setValidationError(null);
     try {
+      const isGrid = newSpot!.provider === 'grid';
       const spot: SpotConfig = {
         id: newSpot!.id!,
         name: newSpot!.name!,
-        npa: newSpot!.npa!,
-        pointId: newSpot!.pointId || `${newSpot!.npa}00`,
+        npa: isGrid ? 0 : newSpot!.npa!,
+        pointId: isGrid ? `grid-${newSpot!.id}` : newSpot!.pointId || `${newSpot!.npa}00`,
         lat: newSpot!.lat!,
         lon: newSpot!.lon!,
         stationId: selectedStation,
@@ -601,6 +799,9 @@ function SpotsTab({ open }: { open: boolean }) {
         alplakesKey: selectedWaterBodyId || '',
         ...(selectedWaterBodyId && { waterBodyId: selectedWaterBodyId }),
         ...(selectedWebcams.length > 0 && { webcams: selectedWebcams }),
+        ...(correctionMode && { correction: { mode: correctionMode, sectors: correctionSectors } }),
+        ...(isGrid && { provider: 'grid' as const }),
+        ...(hasSectors(newSpot!.sectors) && { sectors: newSpot!.sectors }),
       };
       const updated = editingSpotId
         ? spots.map((s) => s.id === editingSpotId ? spot : s)
@@ -611,6 +812,8 @@ function SpotsTab({ open }: { open: boolean }) {
       setSelectedWaterBodyId('');
       setSelectedStation('');
       setSelectedWebcams([]);
+      setCorrectionMode('');
+      setCorrectionSectors(identitySectors());
       setWebcamSearchResults(null);
       setWebcamError(null);
       setEditingSpotId(null);
@@ -687,6 +890,8 @@ function SpotsTab({ open }: { open: boolean }) {
           lon={newSpot?.lon}
           onChange={handleLocationChange}
           onSearchSelect={handleSearchSelect}
+          sectors={newSpot?.sectors}
+          onSectorsChange={newSpot ? (sectors) => setNewSpot((prev) => prev && { ...prev, sectors }) : undefined}
         />
 
         {/* New spot form — visible once a location is set */}
@@ -700,31 +905,50 @@ function SpotsTab({ open }: { open: boolean }) {
                 onChange={(e) => {
                   const name = e.target.value;
                   const id = name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
-                  setNewSpot({ ...newSpot, name, id });
+                  setNewSpot({ ...newSpot, name, id, ...(newSpot.provider === 'grid' && { pointId: `grid-${id}` }) });
                 }}
                 placeholder="Nom du spot"
                 className={inputClass}
               />
             </div>
 
+            <div>
+              <label className={labelClass}>Source des prévisions</label>
+              <select
+                value={newSpot.provider ?? 'meteoswiss'}
+                onChange={(e) => {
+                  const provider = e.target.value as ForecastProviderId;
+                  setNewSpot(provider === 'grid'
+                    ? { ...newSpot, provider, pointId: `grid-${newSpot.id ?? ''}` }
+                    : { ...newSpot, provider: undefined, pointId: newSpot.npa ? `${newSpot.npa}00` : '' });
+                }}
+                className={inputClass}
+              >
+                <option value="meteoswiss">MétéoSuisse (Suisse, par NPA)</option>
+                <option value="grid">Modèle global (hors Suisse)</option>
+              </select>
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <label className={labelClass}>ID</label>
                 <input type="text" value={newSpot.id || ''} readOnly className={`${inputClass} bg-slate-100 dark:bg-slate-600 cursor-not-allowed`} />
               </div>
-              <div>
-                <label className={labelClass}>NPA</label>
-                <input
-                  type="number"
-                  value={newSpot.npa || ''}
-                  onChange={(e) => {
-                    const npa = parseInt(e.target.value, 10) || 0;
-                    setNewSpot({ ...newSpot, npa, pointId: npa >= 1000 ? `${npa}00` : '' });
-                  }}
-                  placeholder="Auto-détecté..."
-                  className={inputClass}
-                />
-              </div>
+              {newSpot.provider !== 'grid' && (
+                <div>
+                  <label className={labelClass}>NPA</label>
+                  <input
+                    type="number"
+                    value={newSpot.npa || ''}
+                    onChange={(e) => {
+                      const npa = parseInt(e.target.value, 10) || 0;
+                      setNewSpot({ ...newSpot, npa, pointId: npa >= 1000 ? `${npa}00` : '' });
+                    }}
+                    placeholder="Auto-détecté..."
+                    className={inputClass}
+                  />
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-3">
@@ -741,7 +965,11 @@ function SpotsTab({ open }: { open: boolean }) {
             <div>
               <label className={labelClass}>Point ID (prévisions)</label>
               <input type="text" value={newSpot.pointId || ''} readOnly className={`${inputClass} bg-slate-100 dark:bg-slate-600 cursor-not-allowed`} />
-              <p className="mt-1 text-xs text-slate-400">Dérivé du NPA — modifiez le NPA pour changer la station de prévision</p>
+              <p className="mt-1 text-xs text-slate-400">
+                {newSpot.provider === 'grid'
+                  ? 'Prévisions du modèle global aux coordonnées du spot'
+                  : 'Dérivé du NPA — modifiez le NPA pour changer la station de prévision'}
+              </p>
             </div>
 
             <div>
@@ -770,7 +998,7 @@ function SpotsTab({ open }: { open: boolean }) {
                 onChange={(e) => setSelectedStation(e.target.value)}
                 className={inputClass}
               >
-                <option value="">Sélectionner une station...</option>
+                <option value="">{newSpot.provider === 'grid' ? 'Aucune station' : 'Sélectionner une station...'}</option>
                 {Object.entries(smnStations)
                   .map(([id, s]) => ({
                     id,
@@ -913,6 +1141,77 @@ function SpotsTab({ open }: { open: boolean }) {
               )}
             </div>
 
+            {/* Shore orientation, used to label slots on/side/offshore */}
+            <div>
+              <label className={labelClass}>Direction du large</label>
+              <select
+                value={newSpot.sectors?.waterBearing ?? ''}
+                onChange={(e) => {
+                  const { good, dangerous } = newSpot.sectors ?? { good: [], dangerous: [] };
+                  setNewSpot({
+                    ...newSpot,
+                    sectors: e.target.value === '' ? { good, dangerous } : { good, dangerous, waterBearing: Number(e.target.value) },
+                  });
+                }}
+                className={inputClass}
+              >
+                <option value="">Non renseignée</option>
+                {COMPASS_POINTS.map((name, i) => (
+                  <option key={name} value={i * 22.5}>{name}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-slate-400 dark:text-slate-500">
+                Côté où se trouve le plan d'eau vu depuis la plage. Permet d'indiquer si le vent est on-shore, side-on ou off-shore.
+              </p>
+            </div>
+
+            {/* Wind correction */}
+            <div className="space-y-2">
+              <label className={labelClass}>Correction du vent</label>
+              <select
+                value={correctionMode}
+                onChange={(e) => setCorrectionMode(e.target.value as CorrectionMode | '')}
+                className={inputClass}
+              >
+                <option value="">Aucune</option>
+                <option value="manual">Manuelle (par secteur)</option>
+                <option value="learned">Apprise (vérification)</option>
+              </select>
+              {correctionMode === 'learned' && (
+                <p className="text-xs text-slate-400 dark:text-slate-500">
+                  Facteurs calculés à partir des observations de la station, par secteur de direction.
+                </p>
+              )}
+              {correctionMode === 'manual' && (
+                <div className="space-y-1">
+                  <div className="grid grid-cols-4 gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                    <span>Secteur</span>
+                    <span>× Vent</span>
+                    <span>× Rafales</span>
+                    <span>+ km/h</span>
+                  </div>
+                  {correctionSectors.map((c, i) => (
+                    <div key={CORRECTION_SECTORS[i]} className="grid grid-cols-4 gap-1.5 items-center">
+                      <span className="text-sm text-slate-700 dark:text-slate-300">{CORRECTION_SECTORS[i]}</span>
+                      {(['speedFactor', 'gustFactor', 'offset'] as const).map((field) => (
+                        <input
+                          key={field}
+                          type="number"
+                          step={field === 'offset' ? 1 : 0.05}
+                          value={c[field]}
+                          onChange={(e) => {
+                            const value = Number(e.target.value);
+                            setCorrectionSectors((prev) => prev.map((p, j) => j === i ? { ...p, [field]: value } : p));
+                          }}
+                          className={inputClass}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {validationError && (
               <p className="text-sm text-red-600 dark:text-red-400">{validationError}</p>
             )}
@@ -926,7 +1225,7 @@ function SpotsTab({ open }: { open: boolean }) {
                 {adding ? 'Enregistrement...' : editingSpotId ? 'Enregistrer' : 'Ajouter le spot'}
               </button>
               <button
-                onClick={() => { setNewSpot(null); setSelectedWaterBodyId(''); setSelectedStation(''); setSelectedWebcams([]); setWebcamSearchResults(null); setWebcamError(null); setValidationError(null); setEditingSpotId(null); setShowAddForm(false); }}
+                onClick={() => { setNewSpot(null); setSelectedWaterBodyId(''); setSelectedStation(''); setSelectedWebcams([]); setCorrectionMode(''); setCorrectionSectors(identitySectors()); setWebcamSearchResults(null); setWebcamError(null); setValidationError(null); setEditingSpotId(null); setShowAddForm(false); }}
                 className="px-4 py-2.5 rounded-lg bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors text-sm"
               >
                 Annuler
@@ -955,7 +1254,7 @@ function SpotsTab({ open }: { open: boolean }) {
                   {s.name}
                 </p>
                 <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
-                  {waterBodies.find((wb) => wb.id === (s.waterBodyId ?? s.lake))?.name ?? 'Aucun plan d\'eau'} · NPA {s.npa} · {s.stationId}
+                  {waterBodies.find((wb) => wb.id === (s.waterBodyId ?? s.lake))?.name ?? 'Aucun plan d\'eau'} · {s.provider === 'grid' ? 'Modèle global' : `NPA ${s.npa}`}{s.stationId && ` · ${s.stationId}`}
                   {s.webcams && s.webcams.length > 0 && (
                     <span className="ml-1 text-teal-600 dark:text-teal-400">· {s.webcams.length} webcam{s.webcams.length > 1 ? 's' : ''}</span>
                   )}
@@ -1513,3 +1812,152 @@ function WaterBodiesTab({ open }: { open: boolean }) {
     </div>
   );
 }
+
+// --- Verification Tab ---
+
+const LEAD_TIME_ORDER = ['0-6h', '6-12h', '12-24h', '24-48h', '48-72h'];
+
+/** Speed bias (km/h) beyond which a spot is flagged as systematically off. */
+const BIAS_FLAG_KMH = 2;
+
+function formatSigned(v: number): string {
+  const rounded = Math.round(v * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded.toFixed(1)}`;
+}
+
+/** Combined speed bias over the short lead times (< 24h), or null without samples. */
+function shortRangeBias(doc: VerificationDocument): number | null {
+  let n = 0;
+  let errSum = 0;
+  for (const key of ['0-6h', '6-12h', '12-24h']) {
+    const s = doc.leadTimes[key];
+    if (!s) continue;
+    n += s.n;
+    errSum += s.speedErrSum;
+  }
+  return n > 0 ? errSum / n : null;
+}
+
+function LeadTimeRow({ bucket, stats }: { bucket: string; stats: LeadTimeStats }) {
+  const gustN = Math.max(stats.gustN, 1);
+  const observedNavigable = stats.hits + stats.misses;
+  return (
+    <tr className="border-t border-slate-200 dark:border-slate-600">
+      <td className="py-1 pr-2 font-medium">{bucket}</td>
+      <td className="py-1 pr-2 text-right">{stats.n}</td>
+      <td className="py-1 pr-2 text-right">{formatSigned(stats.speedErrSum / Math.max(stats.n, 1))}</td>
+      <td className="py-1 pr-2 text-right">{(stats.speedAbsErrSum / Math.max(stats.n, 1)).toFixed(1)}</td>
+      <td className="py-1 pr-2 text-right">{stats.gustN > 0 ? formatSigned(stats.gustErrSum / gustN) : '–'}</td>
+      <td className="py-1 pr-2 text-right">{stats.gustN > 0 ? (stats.gustAbsErrSum / gustN).toFixed(1) : '–'}</td>
+      <td className="py-1 text-right">
+        {observedNavigable > 0 ? `${Math.round((stats.hits / observedNavigable) * 100)}%` : '–'}
+      </td>
+    </tr>
+  );
+}
+
+function VerificationTab({ open }: { open: boolean }) {
+  const [docs, setDocs] = useState<VerificationDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(collection(db, 'verification'));
+      setDocs(snap.docs.map((d) => d.data() as VerificationDocument));
+    } catch {
+      setError('Impossible de charger les statistiques de vérification.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadData();
+  }, [open, loadData]);
+
+  if (loading) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">Chargement...</p>;
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        <button onClick={loadData} className="text-sm text-teal-600 dark:text-teal-400 hover:underline">
+          Réessayer
+        </button>
+      </div>
+    );
+  }
+
+  if (docs.length === 0) {
+    return (
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        Aucune donnée de vérification pour l'instant. Les statistiques sont calculées chaque heure à partir des prévisions archivées.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Prévisions horaires comparées aux mesures SMN. Biais = prévu − mesuré (km/h), MAE = erreur absolue moyenne,
+        détection = part des heures navigables mesurées qui étaient prévues.
+      </p>
+
+      {[...docs].sort((a, b) => a.name.localeCompare(b.name)).map((d) => {
+        const bias = shortRangeBias(d);
+        return (
+          <div key={d.pointId} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{d.name}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Station {d.stationId}
+                  {d.lastVerifiedAt && ` · ${relativeTime(d.lastVerifiedAt.toMillis())}`}
+                </p>
+              </div>
+              {bias !== null && (
+                <span
+                  className={`shrink-0 text-xs px-1.5 py-0.5 rounded ${
+                    bias > BIAS_FLAG_KMH
+                      ? 'bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400'
+                      : bias < -BIAS_FLAG_KMH
+                        ? 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400'
+                        : 'bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400'
+                  }`}
+                >
+                  {bias > BIAS_FLAG_KMH ? 'Surestime' : bias < -BIAS_FLAG_KMH ? 'Sous-estime' : 'Fiable'} ({formatSigned(bias)})
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-slate-700 dark:text-slate-300">
+                <thead>
+                  <tr className="text-slate-500 dark:text-slate-400">
+                    <th className="pb-1 pr-2 text-left font-normal">Échéance</th>
+                    <th className="pb-1 pr-2 text-right font-normal">n</th>
+                    <th className="pb-1 pr-2 text-right font-normal">Biais</th>
+                    <th className="pb-1 pr-2 text-right font-normal">MAE</th>
+                    <th className="pb-1 pr-2 text-right font-normal">Biais raf.</th>
+                    <th className="pb-1 pr-2 text-right font-normal">MAE raf.</th>
+                    <th className="pb-1 text-right font-normal">Détection</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {LEAD_TIME_ORDER.filter((key) => d.leadTimes?.[key]).map((key) => (
+                    <LeadTimeRow key={key} bucket={key} stats={d.leadTimes[key]} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,23 +1,99 @@
-import type { DayForecast as DayForecastType, NavigabilityConfig } from '../types/forecast';
+import type { DayForecast as DayForecastType, HourlyData, NavigabilityConfig, ObservationSample, WaterTempSample, WindClass } from '../types/forecast';
 import { NavigableBadge, NotNavigableBadge } from './NavigableBadge';
-import { WindChart } from './WindChart';
+import { WindChart, type ObservedHour } from './WindChart';
+import { formatSizeSuggestions, suggestSizes, type SizingContext } from '../utils/sizing';
 
 interface DayForecastProps {
   day: DayForecastType;
   label: string;
+  /** Thresholds drawn on the chart. */
   navigability: NavigabilityConfig;
+  /** Wind class of an hour, under the criteria the slots were computed with. */
+  classifyWind: (h: HourlyData) => WindClass;
+  showMinimums: boolean;
   yAxisMax: number;
+  observations?: ObservationSample[];
+  waterSeries?: WaterTempSample[];
+  sizing?: SizingContext | null;
 }
 
-export function DayForecast({ day, label, navigability, yAxisMax }: DayForecastProps) {
+/**
+ * Tiny line showing the water temperature trend over the day.
+ */
+function WaterSparkline({ samples }: { samples: WaterTempSample[] }) {
+  const width = 48;
+  const height = 14;
+  const temps = samples.map((s) => s.temp);
+  const min = Math.min(...temps);
+  const range = Math.max(...temps) - min || 1;
+  const t0 = samples[0].time;
+  const span = samples[samples.length - 1].time - t0 || 1;
+  const points = samples
+    .map((s) => `${((s.time - t0) / span) * width},${height - 1 - ((s.temp - min) / range) * (height - 2)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="inline-block align-middle" aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+const HOUR_MS = 3600_000;
+
+/**
+ * Average the 10-minute observations of the elapsed hours into hourly values:
+ * mean wind and peak gust per hour. Returns Map<start of the hour in UTC ms,
+ * values>, matching HourlyData.time whatever the browser's timezone and on
+ * the 25-hour DST day. The hour in progress is left out.
+ */
+function observedByHour(samples: ObservationSample[], nowMs: number): Map<number, ObservedHour> {
+  const buckets = new Map<number, { speeds: number[]; gusts: number[] }>();
+  for (const o of samples) {
+    if (o.windSpeed === null) continue;
+    const t = Date.UTC(
+      Number(o.timestamp.slice(0, 4)),
+      Number(o.timestamp.slice(4, 6)) - 1,
+      Number(o.timestamp.slice(6, 8)),
+      Number(o.timestamp.slice(8, 10)),
+      Number(o.timestamp.slice(10, 12)),
+    );
+    const hourStart = Math.floor(t / HOUR_MS) * HOUR_MS;
+    if (hourStart + HOUR_MS > nowMs) continue;
+
+    const bucket = buckets.get(hourStart) ?? { speeds: [], gusts: [] };
+    bucket.speeds.push(o.windSpeed);
+    if (o.windGust !== null) bucket.gusts.push(o.windGust);
+    buckets.set(hourStart, bucket);
+  }
+
+  const result = new Map<number, ObservedHour>();
+  for (const [hourStart, { speeds, gusts }] of buckets) {
+    result.set(hourStart, {
+      wind: Math.round((speeds.reduce((a, b) => a + b, 0) / speeds.length) * 10) / 10,
+      gust: gusts.length > 0 ? Math.max(...gusts) : null,
+    });
+  }
+  return result;
+}
+
+export function DayForecast({ day, label, navigability, classifyWind, showMinimums, yAxisMax, observations, waterSeries, sizing }: DayForecastProps) {
   // Check if this day is today and compute current hour
   const now = new Date();
   const todayStr = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
   const currentHour = day.date === todayStr ? now.getHours() : null;
+  const observed = observations ? observedByHour(observations, now.getTime()) : undefined;
 
   // Compute summary stats
   const maxSpeed = Math.max(...day.hourly.map((h) => h.speed));
   const maxGust = Math.max(...day.hourly.map((h) => h.gust));
+  const temps = day.hourly.flatMap((h) => (h.temp !== undefined ? [h.temp] : []));
+  const precipTotal = Math.round(day.hourly.reduce((sum, h) => sum + (h.precip ?? 0), 0) * 10) / 10;
+  const daySeries = (waterSeries ?? []).filter((s) => {
+    const t = new Date(s.time);
+    return `${t.getFullYear()}-${String(t.getMonth() + 1).padStart(2, '0')}-${String(t.getDate()).padStart(2, '0')}` === day.date;
+  });
+  const stormHours = day.hourly.filter((h) => h.thunderstorm).map((h) => h.hour);
 
   return (
     <div className="space-y-2">
@@ -28,19 +104,51 @@ export function DayForecast({ day, label, navigability, yAxisMax }: DayForecastP
             {label}
           </span>
           <span className="text-xs text-slate-400">
-            {day.sunshine > 0 && `☀️ ${day.sunshine}h`}
+            {day.sunshine !== undefined && day.sunshine > 0 && `☀️ ${day.sunshine}h`}
           </span>
+          {temps.length > 0 && (
+            <span className="text-xs text-slate-400">
+              🌡️ {Math.round(Math.min(...temps))}–{Math.round(Math.max(...temps))}°
+            </span>
+          )}
+          {precipTotal > 0 && (
+            <span className="text-xs text-blue-500 dark:text-blue-400">💧 {precipTotal} mm</span>
+          )}
+          {day.waterTemp && (
+            <span
+              className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400"
+              title="Température de l'eau : moyenne du matin (6h–12h) / de l'après-midi (12h–18h)"
+            >
+              🌊 {day.waterTemp.morning !== null ? `${day.waterTemp.morning}°` : '–'}
+              {' / '}
+              {day.waterTemp.afternoon !== null ? `${day.waterTemp.afternoon}°` : '–'}
+              {daySeries.length > 1 && <WaterSparkline samples={daySeries} />}
+            </span>
+          )}
         </div>
 
         <div className="flex gap-1 flex-wrap">
           {day.isNavigable ? (
-            day.slots.map((slot, i) => <NavigableBadge key={i} slot={slot} />)
+            day.slots.map((slot, i) => (
+              <NavigableBadge
+                key={i}
+                slot={slot}
+                sizeHint={sizing ? formatSizeSuggestions(suggestSizes(slot, sizing)) : undefined}
+              />
+            ))
           ) : (
             <NotNavigableBadge />
           )}
         </div>
       </div>
 
+      {/* Thunderstorm warning */}
+      {stormHours.length > 0 && (
+        <p className="text-xs font-medium text-red-600 dark:text-red-400">
+          ⚡ Risque d'orage entre {stormHours[0]}h et {stormHours[stormHours.length - 1] + 1}h
+        </p>
+      )}
+
       {/* Wind summary when not navigable */}
       {!day.isNavigable && day.hourly.length > 0 && (
         <div className="flex gap-4 text-xs text-slate-500 dark:text-slate-400">
@@ -51,7 +159,7 @@ export function DayForecast({ day, label, navigability, yAxisMax }: DayForecastP
 
       {/* Wind chart */}
       {day.hourly.length > 0 && (
-        <WindChart hourly={day.hourly} slots={day.slots} navigability={navigability} yAxisMax={yAxisMax} currentHour={currentHour} />
+        <WindChart hourly={day.hourly} slots={day.slots} navigability={navigability} classifyWind={classifyWind} showMinimums={showMinimums} yAxisMax={yAxisMax} currentHour={currentHour} observed={observed} daylight={day.daylight} />
       )}
     </div>
   );
@@ -0,0 +1,106 @@
+import type { EquipmentProfile } from '../types/forecast';
+import { equipmentError } from '../utils/equipment';
+
+interface EquipmentEditorProps {
+  value: EquipmentProfile[];
+  onChange: (value: EquipmentProfile[]) => void;
+  /** Thresholds prefilled for a new profile. */
+  defaults: { windSpeedMin: number; gustMin: number };
+}
+
+/** Number typed in an input; NaN when emptied, for equipmentError to reject. */
+const parseInput = (raw: string) => (raw.trim() === '' ? NaN : Number(raw));
+
+/** Input value of a number, blank when emptied. */
+const showNumber = (x: number) => (Number.isNaN(x) ? '' : x);
+
+const inputClass =
+  'w-full px-2 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none text-sm';
+
+export function EquipmentEditor({ value, onChange, defaults }: EquipmentEditorProps) {
+  function update(id: string, patch: Partial<EquipmentProfile>) {
+    onChange(value.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  }
+
+  function handleAdd() {
+    onChange([...value, { id: crypto.randomUUID(), name: '', ...defaults }]);
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem_1.5rem] gap-1.5 text-[11px] text-slate-500 dark:text-slate-400">
+          <span>Nom</span>
+          <span>Vent min</span>
+          <span>Rafales min</span>
+          <span>Vent max</span>
+          <span />
+        </div>
+      )}
+      {value.map((e) => {
+        const error = equipmentError(e);
+        return (
+          <div key={e.id}>
+            <div className="grid grid-cols-[1fr_3.5rem_3.5rem_3.5rem_1.5rem] gap-1.5 items-center">
+              <input
+                type="text"
+                value={e.name}
+                placeholder="ex. wing 5m"
+                onChange={(ev) => update(e.id, { name: ev.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={5}
+                max={60}
+                value={showNumber(e.windSpeedMin)}
+                onChange={(ev) => update(e.id, { windSpeedMin: parseInput(ev.target.value) })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={5}
+                max={80}
+                value={showNumber(e.gustMin)}
+                onChange={(ev) => update(e.id, { gustMin: parseInput(ev.target.value) })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={10}
+                max={80}
+                value={e.windSpeedMax ?? ''}
+                placeholder="–"
+                onChange={(ev) => {
+                  // Firestore rejects undefined: omit the key when cleared
+                  const { id, name, windSpeedMin, gustMin } = e;
+                  const max = ev.target.value;
+                  onChange(value.map((p) => (p.id === id
+                    ? { id, name, windSpeedMin, gustMin, ...(max.trim() !== '' && { windSpeedMax: Number(max) }) }
+                    : p)));
+                }}
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((p) => p.id !== e.id))}
+                className="text-slate-400 hover:text-red-500 transition-colors"
+                aria-label={`Supprimer ${e.name}`}
+              >
+                ✕
+              </button>
+            </div>
+            {error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="text-xs text-teal-600 dark:text-teal-400 hover:underline"
+      >
+        + Ajouter du matériel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Header select for the active equipment profile. Hidden until the user has
+ * at least two profiles.
+ */
+export function EquipmentSwitch() {
+  const { preferences, updatePreferences } = useAuth();
+  const [failed, setFailed] = useState(false);
+  const equipment = preferences?.equipment ?? [];
+  if (equipment.length < 2) return null;
+
+  const activeId = equipment.some((e) => e.id === preferences?.activeEquipmentId)
+    ? preferences!.activeEquipmentId!
+    : '';
+
+  return (
+    <select
+      value={activeId}
+      onChange={(e) => {
+        setFailed(false);
+        // On failure the selection is rolled back; the red border and tooltip say why
+        updatePreferences({ activeEquipmentId: e.target.value }).catch(() => setFailed(true));
+      }}
+      title={failed ? "Impossible d'enregistrer le matériel, réessaie." : undefined}
+      className={`max-w-[9rem] px-2 py-1 rounded-lg border ${failed ? 'border-red-500' : 'border-slate-200 dark:border-slate-600'} bg-white dark:bg-slate-700 text-xs text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-teal-500`}
+      aria-label="Matériel"
+    >
+      <option value="">Tout mon matériel</option>
+      {equipment.map((e) => (
+        <option key={e.id} value={e.id}>{e.name}</option>
+      ))}
+    </select>
+  );
+}
@@ -1,16 +1,50 @@
-import { relativeTime } from '../utils/format';
+import { elapsed, forecastParamName, refreshErrorLabel, relativeTime, runTime, upstreamName } from '../utils/format';
+import type { ForecastParam, ParamStatus, RefreshStatus } from '../types/forecast';
 import logoLight from '../assets/logo-full-light.svg';
 import logoDark from '../assets/logo-full-dark.svg';
 import { SettingsButton } from './SettingsButton';
+import { EquipmentSwitch } from './EquipmentSwitch';
 
 interface HeaderProps {
   updatedAt: number | null; // timestamp in ms
+  csvTimestamp?: string;
+  paramStatus?: Partial<Record<ForecastParam, ParamStatus>>;
+  refreshStatus?: RefreshStatus | null;
   refreshing: boolean;
   onRefresh: () => void;
   onSettingsAuthNeeded?: () => void;
 }
 
-export function Header({ updatedAt, refreshing, onRefresh, onSettingsAuthNeeded }: HeaderProps) {
+/**
+ * Banner text for failing data sources, e.g. "MétéoSuisse indisponible depuis 2h — données de 09:00".
+ * Null when the last refresh reached every source.
+ */
+function outageMessage(status: RefreshStatus): string | null {
+  const dataTime = status.lastSuccess ? ` — données de ${runTime(status.lastSuccess.csvTimestamp)}` : '';
+  if (status.outages.length > 0) {
+    const outages = status.outages.map((o) =>
+      `${upstreamName(o.upstream)} ${o.partial ? 'partiellement indisponible' : 'indisponible'} depuis ${elapsed(o.since.toMillis())}`);
+    return outages.join(' · ') + dataTime;
+  }
+  if (status.lastAttempt.outcome === 'failed') {
+    return `Échec de la dernière mise à jour (${relativeTime(status.lastAttempt.at.toMillis())})${dataTime}`;
+  }
+  return null;
+}
+
+export function Header({ updatedAt, csvTimestamp, paramStatus, refreshStatus, refreshing, onRefresh, onSettingsAuthNeeded }: HeaderProps) {
+  // Run used by each parameter; more than one distinct run means the data is mixed
+  const paramRuns = (Object.entries(paramStatus ?? {}) as [ForecastParam, ParamStatus][])
+    .filter(([, st]) => st.csvTimestamp);
+  const mixedRuns = new Set(paramRuns.map(([, st]) => st.csvTimestamp)).size > 1;
+  const runsTooltip = paramRuns
+    .map(([param, st]) => `${forecastParamName(param)} : ${runTime(st.csvTimestamp!)}`)
+    .join('\n');
+  const outage = refreshStatus ? outageMessage(refreshStatus) : null;
+  const lastErrorCode = refreshStatus?.lastAttempt.errorCode;
+  const outageDetails = refreshStatus?.outages.map((o) => `${upstreamName(o.upstream)} : ${refreshErrorLabel(o.code)}`).join('\n')
+    || (lastErrorCode && refreshErrorLabel(lastErrorCode));
+
   return (
     <header className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm border-b border-slate-200 dark:border-slate-700 sticky top-0 z-10">
       <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between">
@@ -20,11 +54,20 @@ export function Header({ updatedAt, refreshing, onRefresh, onSettingsAuthNeeded
         </h1>
 
         <div className="flex items-center gap-3">
+          <EquipmentSwitch />
           {updatedAt && (
             <span className="text-xs text-slate-500 dark:text-slate-400 hidden sm:inline">
               Mis à jour {relativeTime(updatedAt)}
             </span>
           )}
+          {csvTimestamp && (
+            <span
+              className={`text-xs hidden sm:inline ${mixedRuns ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400 dark:text-slate-500'}`}
+              title={runsTooltip || undefined}
+            >
+              {mixedRuns ? 'Runs mixtes' : `Run de ${runTime(csvTimestamp)}`}
+            </span>
+          )}
           <button
             onClick={onRefresh}
             disabled={refreshing}
@@ -49,6 +92,15 @@ export function Header({ updatedAt, refreshing, onRefresh, onSettingsAuthNeeded
           <SettingsButton onAuthNeeded={onSettingsAuthNeeded} />
         </div>
       </div>
+      {outage && (
+        <div
+          className="bg-amber-50 dark:bg-amber-500/10 border-t border-amber-200 dark:border-amber-500/30 text-amber-800 dark:text-amber-300 text-xs"
+          title={outageDetails || undefined}
+          role="status"
+        >
+          <p className="max-w-6xl mx-auto px-4 py-1.5">⚠️ {outage}</p>
+        </div>
+      )}
     </header>
   );
 }
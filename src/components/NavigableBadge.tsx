@@ -1,17 +1,35 @@
 import type { NavigableSlot } from '../types/forecast';
+import { exposureLabel } from '../utils/format';
 
 interface NavigableBadgeProps {
   slot: NavigableSlot;
+  /** Suggested gear size, e.g. "wing 5 m". */
+  sizeHint?: string;
 }
 
-export function NavigableBadge({ slot }: NavigableBadgeProps) {
+export function NavigableBadge({ slot, sizeHint }: NavigableBadgeProps) {
   return (
     <span className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400 text-xs font-medium">
       <span className="w-1.5 h-1.5 rounded-full bg-green-500 dark:bg-green-400" />
       {slot.start}h–{slot.end}h
       <span className="text-green-600/70 dark:text-green-400/70">
         {slot.direction}
+        {slot.exposure && ` · ${exposureLabel(slot.exposure)}`}
+        {slot.equipment && ` · ${slot.equipment}`}
       </span>
+      {sizeHint && (
+        <span className="text-green-800 dark:text-green-300" title="Taille conseillée selon ton poids">
+          · {sizeHint}
+        </span>
+      )}
+      {slot.score != null && (
+        <span
+          className="px-1 rounded bg-green-200/70 dark:bg-green-500/30 text-[10px] tabular-nums"
+          title="Note du créneau sur 100 : durée, régularité du vent, rafales, direction, soleil et eau"
+        >
+          {slot.score}
+        </span>
+      )}
     </span>
   );
 }
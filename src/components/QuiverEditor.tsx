@@ -0,0 +1,59 @@
+import type { QuiverItem, Sport } from '../types/forecast';
+import { SPORT_LABELS } from '../utils/sizing';
+
+interface QuiverEditorProps {
+  value: QuiverItem[];
+  onChange: (value: QuiverItem[]) => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none text-sm';
+
+export function QuiverEditor({ value, onChange }: QuiverEditorProps) {
+  function update(index: number, patch: Partial<QuiverItem>) {
+    onChange(value.map((q, i) => (i === index ? { ...q, ...patch } : q)));
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.map((item, i) => (
+        <div key={i} className="grid grid-cols-[1fr_5rem_1.5rem] gap-1.5 items-center">
+          <select
+            value={item.sport}
+            onChange={(e) => update(i, { sport: e.target.value as Sport })}
+            className={inputClass}
+          >
+            {(Object.keys(SPORT_LABELS) as Sport[]).map((sport) => (
+              <option key={sport} value={sport}>{SPORT_LABELS[sport]}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            step={0.5}
+            value={item.size}
+            onChange={(e) => update(i, { size: Number(e.target.value) })}
+            className={inputClass}
+            aria-label="Taille (m²)"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((_, j) => j !== i))}
+            className="text-slate-400 hover:text-red-500 transition-colors"
+            aria-label={`Supprimer ${SPORT_LABELS[item.sport]} ${item.size} m`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { sport: value[value.length - 1]?.sport ?? 'wing', size: 5 }])}
+        className="text-xs text-teal-600 dark:text-teal-400 hover:underline"
+      >
+        + Ajouter une aile
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useRefreshHistory } from '../hooks/useRefreshHistory';
+import { runTime, upstreamName } from '../utils/format';
+import type { RefreshAttempt } from '../types/forecast';
+
+const OUTCOME_LABELS: Record<RefreshAttempt['outcome'], { label: string; className: string }> = {
+  success: { label: 'OK', className: 'bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400' },
+  degraded: { label: 'Dégradé', className: 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400' },
+  failed: { label: 'Échec', className: 'bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400' },
+};
+
+/** Recent refresh attempts from `refreshHistory/recent`, newest first. */
+export function RefreshHistory() {
+  const attempts = useRefreshHistory();
+
+  if (!attempts) {
+    return <p className="text-xs text-slate-400">Aucune tentative enregistrée pour l'instant.</p>;
+  }
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-slate-600 dark:text-slate-300">
+        Historique des mises à jour ({attempts.length})
+      </summary>
+      <ul className="mt-2 space-y-1.5">
+        {attempts.map((attempt) => {
+          const outcome = OUTCOME_LABELS[attempt.outcome];
+          const details = attempt.failures.length > 0
+            ? attempt.failures.map((f) => `${upstreamName(f.upstream)} : ${f.error}`)
+            : attempt.error ? [attempt.error] : [];
+          return (
+            <li key={attempt.at.toMillis()} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+              <div className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+                <span className={`px-1.5 py-0.5 rounded ${outcome.className}`}>{outcome.label}</span>
+                <span>
+                  {new Date(attempt.at.toMillis()).toLocaleString('fr-CH', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <span className="text-slate-400">
+                  {attempt.trigger === 'scheduled' ? 'Planifiée' : 'Client'} · {(attempt.durationMs / 1000).toFixed(1)} s
+                  {attempt.csvTimestamp && ` · run ${runTime(attempt.csvTimestamp)}`}
+                </span>
+              </div>
+              {details.map((line) => (
+                <p key={line} className="mt-0.5 text-slate-500 dark:text-slate-400 break-words">{line}</p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { NavigabilityConfig, SpotConfig, SpotForecast } from '../types/forecast';
+import { calculateSlots } from '../utils/navigability';
+import { compileRule, RuleError, type CompiledRule } from '../utils/rule';
+import { dayLabel } from '../utils/format';
+
+interface RuleEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  spots: SpotConfig[];
+  navigability: NavigabilityConfig | null;
+}
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg border bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none text-sm font-mono';
+
+const EXAMPLES = [
+  'speed >= 14 and gust - speed <= 10',
+  'speed >= 15 and dir in SO..NO',
+  'speed >= 12 and (sun >= 30 or temp >= 22)',
+];
+
+/**
+ * Validate a rule: the compiled rule, or the error to display. Empty rules are valid (thresholds apply).
+ * Any error is shown in the editor rather than thrown, so a rule can never crash the settings.
+ */
+function checkRule(source: string): { rule?: CompiledRule; error?: RuleError } {
+  if (!source.trim()) return {};
+  try {
+    return { rule: compileRule(source) };
+  } catch (err) {
+    if (err instanceof RuleError) return { error: err };
+    return { error: new RuleError(err instanceof Error ? err.message : String(err), 0) };
+  }
+}
+
+export function RuleEditor({ value, onChange, spots, navigability }: RuleEditorProps) {
+  const [forecasts, setForecasts] = useState<SpotForecast[] | null>(null);
+  const pointIdsKey = spots.map((s) => s.pointId).join(',');
+
+  // Forecasts of the previewed spots only, read once
+  useEffect(() => {
+    if (!pointIdsKey) return;
+    Promise.all(pointIdsKey.split(',').map((id) => getDoc(doc(db, 'forecasts', 'latest', 'spots', id))))
+      .then((snaps) => setForecasts(snaps.filter((s) => s.exists()).map((s) => s.data() as SpotForecast)))
+      .catch(() => { /* preview unavailable */ });
+  }, [pointIdsKey]);
+
+  const { rule, error } = useMemo(() => checkRule(value), [value]);
+
+  // Today's slots per spot, with the rule being edited
+  const preview = useMemo(() => {
+    if (!rule || !forecasts || !navigability) return null;
+    const today = new Date().toLocaleDateString('sv-SE', { timeZone: navigability.timezone });
+    return spots.flatMap((cfg) => {
+      const day = forecasts
+        .find((s) => s.pointId === cfg.pointId)
+        ?.days.find((d) => d.date >= today);
+      if (!day) return [];
+      const slots = calculateSlots(day.hourly, navigability, { sectors: cfg.sectors, rule, daylight: day.daylight });
+      return [{ name: cfg.name, date: day.date, slots }];
+    });
+  }, [rule, forecasts, navigability, spots]);
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={2}
+        spellCheck={false}
+        placeholder="ex. speed >= 14 and gust - speed <= 10 and dir in SO..NO"
+        className={`${inputClass} ${error ? 'border-red-400 dark:border-red-500' : 'border-slate-300 dark:border-slate-600'}`}
+      />
+
+      {error && (
+        <div className="text-xs text-red-600 dark:text-red-400">
+          <p>{error.message} (position {error.position + 1})</p>
+          <pre className="mt-0.5 font-mono text-[11px] whitespace-pre overflow-x-auto">
+            {value}{'\n'}{' '.repeat(error.position)}^
+          </pre>
+        </div>
+      )}
+
+      <details className="text-xs text-slate-500 dark:text-slate-400">
+        <summary className="cursor-pointer">Syntaxe</summary>
+        <div className="mt-1 space-y-1">
+          <p>
+            Variables : <code>speed</code>, <code>gust</code> (km/h), <code>dir</code> (°), <code>sun</code> (min/h),{' '}
+            <code>temp</code> (°C), <code>precip</code> (mm), <code>precipProb</code>, <code>cloud</code> (%), <code>hour</code>.
+          </p>
+          <p>
+            Opérateurs : <code>+ - * /</code>, <code>&lt; &lt;= &gt; &gt;= == !=</code>, <code>and</code>/<code>et</code>,{' '}
+            <code>or</code>/<code>ou</code>, <code>not</code>/<code>non</code>, <code>dir in SO..NO</code> (secteur horaire).
+          </p>
+          <p>
+            Une condition sur une valeur absente de la prévision (ex. <code>temp</code>) reste indéterminée, même avec{' '}
+            <code>not</code> : l'heure ne compte alors que si le reste de la règle suffit.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {EXAMPLES.map((example) => (
+              <button
+                key={example}
+                type="button"
+                onClick={() => onChange(example)}
+                className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-700 font-mono hover:bg-slate-200 dark:hover:bg-slate-600"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        </div>
+      </details>
+
+      {preview && preview.length > 0 && (
+        <div className="p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-xs space-y-0.5">
+          <p className="font-medium text-slate-600 dark:text-slate-300">Aperçu · {dayLabel(preview[0].date)}</p>
+          {preview.map(({ name, slots }) => (
+            <p key={name} className="flex justify-between gap-2">
+              <span className="text-slate-700 dark:text-slate-300">{name}</span>
+              {slots.length > 0 ? (
+                <span className="text-green-700 dark:text-green-400">
+                  {slots.map((s) => `${s.start}h–${s.end}h`).join(', ')}
+                </span>
+              ) : (
+                <span className="text-slate-400">Pas navigable</span>
+              )}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
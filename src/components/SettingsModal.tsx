@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useConfig } from '../hooks/useConfig';
 import { useNotifications } from '../hooks/useNotifications';
@@ -6,8 +6,17 @@ import { Modal } from './Modal';
 import { AdminModal } from './AdminModal';
 import { EditProfileModal } from './EditProfileModal';
 import { ChangePasswordModal } from './ChangePasswordModal';
+import { RuleEditor } from './RuleEditor';
+import { EquipmentEditor } from './EquipmentEditor';
+import { QuiverEditor } from './QuiverEditor';
+import { SizeChartEditor } from './SizeChartEditor';
+import { useSizeCharts } from '../hooks/useSizing';
+import { SPORT_LABELS, isValidWeight, sizeChartError } from '../utils/sizing';
+import { compileRule } from '../utils/rule';
+import { equipmentError } from '../utils/equipment';
 import { DEFAULT_USER_PREFERENCES } from '../types/user';
 import type { ThemePreference } from '../types/user';
+import type { EquipmentProfile, QuiverItem, SizeCharts, Sport } from '../types/forecast';
 
 interface SettingsModalProps {
   open: boolean;
@@ -21,22 +30,37 @@ const labelClass = 'block text-sm font-medium text-slate-700 dark:text-slate-300
 
 export function SettingsModal({ open, onClose }: SettingsModalProps) {
   const { user, isAdmin, preferences, updatePreferences, signOut } = useAuth();
-  const { spots: spotConfigs } = useConfig();
+  const { spots: spotConfigs, navigability } = useConfig();
+  const adminSizeCharts = useSizeCharts();
 
   const [windSpeedMin, setWindSpeedMin] = useState(DEFAULT_USER_PREFERENCES.windSpeedMin);
   const [gustMin, setGustMin] = useState(DEFAULT_USER_PREFERENCES.gustMin);
   const [forecastDays, setForecastDays] = useState(DEFAULT_USER_PREFERENCES.forecastDays);
   const [selectedSpots, setSelectedSpots] = useState<string[]>([]);
+  const [navigabilityRule, setNavigabilityRule] = useState('');
+  const [equipment, setEquipment] = useState<EquipmentProfile[]>([]);
+  const [daylightMargin, setDaylightMargin] = useState(0);
+  const [riderWeight, setRiderWeight] = useState<number | ''>('');
+  const [quiver, setQuiver] = useState<QuiverItem[]>([]);
+  const [sizeCharts, setSizeCharts] = useState<Partial<SizeCharts>>({});
   const [themePreference, setThemePreference] = useState<ThemePreference>('system');
   const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [adminOpen, setAdminOpen] = useState(false);
   const [editProfileOpen, setEditProfileOpen] = useState(false);
   const [changePasswordOpen, setChangePasswordOpen] = useState(false);
   const notifications = useNotifications();
   const [togglingNotif, setTogglingNotif] = useState(false);
 
+  // Fill the form once per opening: a failed save rolls preferences back and must not wipe the edits
+  const filledRef = useRef(false);
   useEffect(() => {
-    if (open && preferences) {
+    if (!open) {
+      filledRef.current = false;
+      return;
+    }
+    if (preferences && !filledRef.current) {
+      filledRef.current = true;
       setWindSpeedMin(preferences.windSpeedMin);
       setGustMin(preferences.gustMin);
       setForecastDays(preferences.forecastDays);
@@ -46,9 +70,39 @@ export function SettingsModal({ open, onClose }: SettingsModalProps) {
           : spotConfigs.map((s) => s.pointId),
       );
       setThemePreference(preferences.themePreference ?? 'system');
+      setNavigabilityRule(preferences.navigabilityRule ?? '');
+      setEquipment(preferences.equipment ?? []);
+      setDaylightMargin(preferences.daylightMargin ?? 0);
+      setRiderWeight(preferences.riderWeight || '');
+      setQuiver(preferences.quiver ?? []);
+      setSizeCharts(preferences.sizeCharts ?? {});
     }
   }, [open, preferences, spotConfigs]);
 
+  const ruleInvalid = useMemo(() => {
+    if (!navigabilityRule.trim()) return false;
+    try {
+      compileRule(navigabilityRule);
+      return false;
+    } catch {
+      return true;
+    }
+  }, [navigabilityRule]);
+
+  // An emptied weight or chart value would divide sizes by zero
+  const sizingInvalid = (riderWeight !== '' && !isValidWeight(riderWeight)) ||
+    Object.values(sizeCharts).some((chart) => chart && sizeChartError(chart) !== null);
+  const equipmentInvalid = equipment.some((e) => equipmentError(e) !== null);
+
+  function toggleCalibration(sport: Sport) {
+    setSizeCharts((prev) => {
+      const next = { ...prev };
+      if (next[sport]) delete next[sport];
+      else next[sport] = adminSizeCharts[sport];
+      return next;
+    });
+  }
+
   function toggleSpot(pointId: string) {
     setSelectedSpots((prev) =>
       prev.includes(pointId)
@@ -59,16 +113,32 @@ export function SettingsModal({ open, onClose }: SettingsModalProps) {
 
   async function handleSave() {
     const allSelected = selectedSpots.length === spotConfigs.length;
+    const namedEquipment = equipment
+      .map((e) => ({ ...e, name: e.name.trim() }))
+      .filter((e) => e.name);
     setSaving(true);
-    await updatePreferences({
-      windSpeedMin,
-      gustMin,
-      forecastDays,
-      selectedSpots: allSelected ? [] : selectedSpots,
-      themePreference,
-    });
-    setSaving(false);
-    onClose();
+    setSaveError(null);
+    try {
+      await updatePreferences({
+        windSpeedMin,
+        gustMin,
+        forecastDays,
+        selectedSpots: allSelected ? [] : selectedSpots,
+        themePreference,
+        navigabilityRule: navigabilityRule.trim(),
+        daylightMargin,
+        equipment: namedEquipment,
+        riderWeight: riderWeight === '' ? 0 : riderWeight,
+        quiver: quiver.filter((q) => Number.isFinite(q.size) && q.size > 0),
+        sizeCharts,
+        ...(!namedEquipment.some((e) => e.id === preferences?.activeEquipmentId) && { activeEquipmentId: '' }),
+      });
+      onClose();
+    } catch {
+      setSaveError("Impossible d'enregistrer les paramètres, réessaie.");
+    } finally {
+      setSaving(false);
+    }
   }
 
   async function handleSignOut() {
@@ -211,6 +281,117 @@ export function SettingsModal({ open, onClose }: SettingsModalProps) {
             </p>
           </div>
 
+          <div>
+            <label className={labelClass}>
+              Marge de lumière du jour
+            </label>
+            <select
+              value={daylightMargin}
+              onChange={(e) => setDaylightMargin(Number(e.target.value))}
+              className={inputClass}
+            >
+              <option value={0}>Aucune (du lever au coucher du soleil)</option>
+              <option value={15}>15 min</option>
+              <option value={30}>30 min</option>
+              <option value={45}>45 min</option>
+              <option value={60}>1 h</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-400">
+              Les créneaux commencent après le lever et finissent avant le coucher du soleil à chaque spot, avec cette marge
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>
+              Mon matériel
+            </label>
+            <EquipmentEditor
+              value={equipment}
+              onChange={setEquipment}
+              defaults={{ windSpeedMin, gustMin }}
+            />
+            <p className="mt-1 text-xs text-slate-400">
+              Chaque matériel a sa plage de vent ; les créneaux indiquent lequel emporter. Remplace les seuils ci-dessus ; les minimums par spot s'y appliquent encore.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>
+              Poids (kg)
+            </label>
+            <input
+              type="number"
+              min={30}
+              max={150}
+              step={1}
+              value={riderWeight}
+              placeholder="Non renseigné"
+              onChange={(e) => setRiderWeight(e.target.value === '' ? '' : Number(e.target.value))}
+              className={inputClass}
+            />
+            {riderWeight !== '' && !isValidWeight(riderWeight) ? (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400">Le poids doit être supérieur à 0.</p>
+            ) : (
+              <p className="mt-1 text-xs text-slate-400">
+                Permet de conseiller une taille d'aile pour chaque créneau
+              </p>
+            )}
+          </div>
+
+          {riderWeight !== '' && (
+            <div>
+              <label className={labelClass}>
+                Mes ailes
+              </label>
+              <QuiverEditor value={quiver} onChange={setQuiver} />
+              <p className="mt-1 text-xs text-slate-400">
+                La taille conseillée est choisie parmi tes ailes ; sans aile, la taille idéale en wing est affichée.
+              </p>
+              <details className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                <summary className="cursor-pointer">Barème de tailles</summary>
+                <div className="mt-2 space-y-3">
+                  {(Object.keys(SPORT_LABELS) as Sport[]).map((sport) => {
+                    const chart = sizeCharts[sport];
+                    return (
+                      <div key={sport} className="space-y-2">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={!!chart}
+                            onChange={() => toggleCalibration(sport)}
+                            className="accent-teal-600"
+                          />
+                          Personnaliser le barème {SPORT_LABELS[sport]}
+                        </label>
+                        {chart && (
+                          <SizeChartEditor
+                            value={chart}
+                            onChange={(c) => setSizeCharts((prev) => ({ ...prev, [sport]: c }))}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </details>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>
+              Règle de navigabilité (avancé)
+            </label>
+            <RuleEditor
+              value={navigabilityRule}
+              onChange={setNavigabilityRule}
+              spots={spotConfigs.filter((s) => selectedSpots.includes(s.pointId))}
+              navigability={navigability}
+            />
+            <p className="mt-1 text-xs text-slate-400">
+              Si renseignée, remplace les minimums de vent et de rafales ci-dessus ainsi que le matériel ; les maximums restent appliqués
+            </p>
+          </div>
+
           <div>
             <label className={labelClass}>
               Jours de prévision
@@ -315,11 +496,12 @@ export function SettingsModal({ open, onClose }: SettingsModalProps) {
       <div className="sticky bottom-0 -mx-5 -mb-4 px-5 pb-4 pt-3 bg-white dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700 space-y-3">
         <button
           onClick={handleSave}
-          disabled={saving}
+          disabled={saving || ruleInvalid || sizingInvalid || equipmentInvalid}
           className="w-full py-2.5 rounded-lg bg-teal-600 text-white font-medium hover:bg-teal-700 transition-colors disabled:opacity-50 text-sm"
         >
           {saving ? 'Enregistrement...' : 'Enregistrer'}
         </button>
+        {saveError && <p className="text-xs text-red-600 dark:text-red-400">{saveError}</p>}
         <button
           onClick={handleSignOut}
           className="w-full py-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors text-sm font-medium"
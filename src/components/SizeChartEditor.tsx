@@ -0,0 +1,81 @@
+import type { SizeChart } from '../types/forecast';
+import { sizeChartError } from '../utils/sizing';
+
+interface SizeChartEditorProps {
+  value: SizeChart;
+  onChange: (value: SizeChart) => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none text-sm';
+
+export function SizeChartEditor({ value, onChange }: SizeChartEditorProps) {
+  const error = sizeChartError(value);
+
+  function updateRow(index: number, patch: Partial<SizeChart['rows'][number]>) {
+    onChange({ ...value, rows: value.rows.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  }
+
+  function handleAdd() {
+    const last = value.rows[value.rows.length - 1];
+    onChange({ ...value, rows: [...value.rows, { wind: (last?.wind ?? 10) + 5, size: last?.size ?? 5 }] });
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+        Poids de référence (kg)
+        <input
+          type="number"
+          min={30}
+          max={150}
+          value={value.referenceWeight}
+          onChange={(e) => onChange({ ...value, referenceWeight: Number(e.target.value) })}
+          className={`${inputClass} w-20`}
+        />
+      </label>
+      <div className="grid grid-cols-[1fr_1fr_1.5rem] gap-1.5 text-[11px] text-slate-500 dark:text-slate-400">
+        <span>Vent (km/h)</span>
+        <span>Taille (m²)</span>
+        <span />
+      </div>
+      {value.rows.map((row, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_1.5rem] gap-1.5 items-center">
+          <input
+            type="number"
+            min={0}
+            max={80}
+            value={row.wind}
+            onChange={(e) => updateRow(i, { wind: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={1}
+            max={20}
+            step={0.5}
+            value={row.size}
+            onChange={(e) => updateRow(i, { size: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, rows: value.rows.filter((_, j) => j !== i) })}
+            className="text-slate-400 hover:text-red-500 transition-colors"
+            aria-label="Supprimer la ligne"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="text-xs text-teal-600 dark:text-teal-400 hover:underline"
+      >
+        + Ajouter une ligne
+      </button>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
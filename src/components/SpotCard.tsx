@@ -1,9 +1,15 @@
-import { useState } from 'react';
-import type { SpotForecast, NavigabilityConfig, NavigableSlot, CurrentWeather, SpotWebcam } from '../types/forecast';
+import { useCallback, useState } from 'react';
+import type { SpotForecast, NavigabilityConfig, NavigableSlot, CurrentWeather, EquipmentProfile, HourlyData, SpotThresholds, SpotWebcam } from '../types/forecast';
 import { DayForecast } from './DayForecast';
 import { StarButton } from './StarButton';
 import { WebcamModal } from './WebcamModal';
-import { dayLabel, lakeName } from '../utils/format';
+import { SpotThresholdsEditor } from './SpotThresholdsEditor';
+import { SpotProvenanceInfo } from './SpotProvenanceInfo';
+import { applySpotOverride, classifyEquipmentHour, equipmentLimits } from '../utils/navigability';
+import type { CompiledRule } from '../utils/rule';
+import { useObservationHistory } from '../hooks/useObservationHistory';
+import type { SizingContext } from '../utils/sizing';
+import { dayLabel, exposureLabel, forecastParamName, lakeName } from '../utils/format';
 import { SMN_STATIONS_FALLBACK as STATIONS } from '../utils/smnStations';
 
 interface SpotCardProps {
@@ -19,6 +25,14 @@ interface SpotCardProps {
   isFavorite: boolean;
   onToggleFavorite: () => void;
   webcams?: SpotWebcam[];
+  /** User's thresholds for this spot only; `navigability` holds the ones for all spots. */
+  thresholdOverride?: SpotThresholds;
+  /** Rejects when the save fails. */
+  onThresholdOverrideChange: (override: SpotThresholds | null) => Promise<void>;
+  /** Equipment profiles and rule the slots were computed with, for the charts to agree. */
+  equipmentProfiles: EquipmentProfile[];
+  navigabilityRule?: CompiledRule;
+  sizing: SizingContext | null;
 }
 
 
@@ -33,6 +47,21 @@ function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): num
   return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
+/**
+ * Station tooltip: name and distance recorded at refresh time, otherwise
+ * computed from the built-in station list.
+ */
+function stationTooltip(spot: SpotForecast, stationId: string | null): string | undefined {
+  const recorded = spot.provenance?.station;
+  if (recorded?.id === stationId && recorded.name && recorded.distanceKm !== undefined) {
+    return `Station ${recorded.name} — ~${Math.round(recorded.distanceKm)} km`;
+  }
+  const station = stationId ? STATIONS[stationId] : null;
+  if (!station) return undefined;
+  const dist = Math.round(distanceKm(spot.lat, spot.lon, station.lat, station.lon));
+  return `Station ${station.name} (${station.location}) — ~${dist} km`;
+}
+
 function WindArrow({ dir }: { dir: number }) {
   return (
     <svg
@@ -59,8 +88,21 @@ function Chevron({ expanded }: { expanded: boolean }) {
   );
 }
 
-export function SpotCard({ spot, navigability, yAxisMax, currentWeather, stationId, forecastDays, isExpanded, onToggle, bestSlot, isFavorite, onToggleFavorite, webcams }: SpotCardProps) {
+export function SpotCard({ spot, navigability, yAxisMax, currentWeather, stationId, forecastDays, isExpanded, onToggle, bestSlot, isFavorite, onToggleFavorite, webcams, thresholdOverride, onThresholdOverrideChange, equipmentProfiles, navigabilityRule, sizing }: SpotCardProps) {
   const [webcamOpen, setWebcamOpen] = useState(false);
+  const [thresholdsOpen, setThresholdsOpen] = useState(false);
+  const [infoOpen, setInfoOpen] = useState(false);
+  const spotNavigability = applySpotOverride(navigability, thresholdOverride);
+  // Charts classify hours like the slots: a rule ignores the profiles and has no minimums to draw
+  const chartLimits = navigabilityRule
+    ? spotNavigability
+    : equipmentLimits(navigability, equipmentProfiles, thresholdOverride);
+  const classifyWind = useCallback(
+    (h: HourlyData) => classifyEquipmentHour(h, navigability, equipmentProfiles, thresholdOverride, navigabilityRule),
+    [navigability, equipmentProfiles, thresholdOverride, navigabilityRule],
+  );
+  // Observation history is only needed by the charts of an expanded card
+  const observations = useObservationHistory(stationId, isExpanded);
   const hasWebcams = webcams && webcams.length > 0;
 
   // Show today + future days only
@@ -107,13 +149,7 @@ export function SpotCard({ spot, navigability, yAxisMax, currentWeather, station
               {spot.name}
             </h3>
             {currentWeather && currentWeather.windSpeed !== null && (() => {
-              const station = stationId ? STATIONS[stationId] : null;
-              const dist = station
-                ? Math.round(distanceKm(spot.lat, spot.lon, station.lat, station.lon))
-                : null;
-              const tooltip = station
-                ? `Station ${station.name} (${station.location}) — ~${dist} km`
-                : undefined;
+              const tooltip = stationTooltip(spot, stationId);
               return (
               <span
                 className="hidden sm:flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 shrink-0"
@@ -134,9 +170,17 @@ export function SpotCard({ spot, navigability, yAxisMax, currentWeather, station
               );
             })()}
           </div>
-          {(spot.waterBodyName || spot.lake) && (
+          {(spot.waterBodyName || spot.lake || spot.correction) && (
             <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
               {spot.waterBodyName ?? lakeName(spot.lake)}
+              {spot.correction && (
+                <span
+                  className="ml-1 text-teal-600 dark:text-teal-400"
+                  title="Les valeurs brutes du modèle sont visibles au survol du graphique"
+                >
+                  · vent corrigé ({spot.correction === 'learned' ? 'appris' : 'manuel'})
+                </span>
+              )}
             </p>
           )}
         </div>
@@ -144,7 +188,7 @@ export function SpotCard({ spot, navigability, yAxisMax, currentWeather, station
         {/* Best slot summary (collapsed only) */}
         {!isExpanded && bestSlot && (
           <span className="hidden sm:inline-flex items-center gap-1.5 text-xs text-green-700 dark:text-green-400 shrink-0">
-            {bestSlot.avgSpeed}–{bestSlot.avgGust} km/h {bestSlot.direction} · {bestSlot.start}h–{bestSlot.end}h
+            {bestSlot.avgSpeed}–{bestSlot.avgGust} km/h {bestSlot.direction}{bestSlot.exposure && ` ${exposureLabel(bestSlot.exposure)}`} · {bestSlot.start}h–{bestSlot.end}h{bestSlot.equipment && ` · ${bestSlot.equipment}`}{bestSlot.score != null && ` · ${bestSlot.score}/100`}
           </span>
         )}
 
@@ -155,6 +199,43 @@ export function SpotCard({ spot, navigability, yAxisMax, currentWeather, station
           </span>
         )}
 
+        {/* Per-spot thresholds button */}
+        <span
+          role="button"
+          tabIndex={0}
+          onClick={(e) => { e.stopPropagation(); setThresholdsOpen((o) => !o); }}
+          onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.stopPropagation(); e.preventDefault(); setThresholdsOpen((o) => !o); } }}
+          className={`shrink-0 p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors ${
+            thresholdOverride ? 'text-teal-600 dark:text-teal-400' : 'text-slate-500 dark:text-slate-400'
+          }`}
+          title={thresholdOverride
+            ? `Seuils de ce spot : ${spotNavigability.windSpeedMin} / ${spotNavigability.gustMin} km/h`
+            : 'Seuils pour ce spot'}
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M4 21v-7M4 10V3M12 21v-9M12 8V3M20 21v-5M20 12V3M1 14h6M9 8h6M17 16h6" />
+          </svg>
+        </span>
+
+        {/* Data provenance button */}
+        {spot.provenance && (
+          <span
+            role="button"
+            tabIndex={0}
+            onClick={(e) => { e.stopPropagation(); setInfoOpen((o) => !o); }}
+            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.stopPropagation(); e.preventDefault(); setInfoOpen((o) => !o); } }}
+            className={`shrink-0 p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors ${
+              infoOpen ? 'text-teal-600 dark:text-teal-400' : 'text-slate-500 dark:text-slate-400'
+            }`}
+            title="Sources des données"
+          >
+            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 16v-4M12 8h.01" />
+            </svg>
+          </span>
+        )}
+
         {/* Webcam button */}
         {hasWebcams && (
           <span
@@ -176,17 +257,24 @@ export function SpotCard({ spot, navigability, yAxisMax, currentWeather, station
         <Chevron expanded={isExpanded} />
       </button>
 
+      {thresholdsOpen && (
+        <SpotThresholdsEditor
+          override={thresholdOverride}
+          defaults={navigability}
+          onSave={onThresholdOverrideChange}
+          onClose={() => setThresholdsOpen(false)}
+        />
+      )}
+
+      {infoOpen && spot.provenance && (
+        <SpotProvenanceInfo provenance={spot.provenance} onClose={() => setInfoOpen(false)} />
+      )}
+
       {/* Mobile-only: current weather + water temp bar */}
       {(currentWeather?.windSpeed !== null || spot.waterTemp.current !== null) && (
         <div className="sm:hidden flex items-center gap-3 px-4 pb-2 -mt-1 text-xs text-slate-500 dark:text-slate-400">
           {currentWeather && currentWeather.windSpeed !== null && (() => {
-            const station = stationId ? STATIONS[stationId] : null;
-            const dist = station
-              ? Math.round(distanceKm(spot.lat, spot.lon, station.lat, station.lon))
-              : null;
-            const tooltip = station
-              ? `Station ${station.name} (${station.location}) — ~${dist} km`
-              : undefined;
+            const tooltip = stationTooltip(spot, stationId);
             return (
               <span className="flex items-center gap-1" title={tooltip}>
                 {currentWeather.windDir !== null && (
@@ -233,13 +321,24 @@ export function SpotCard({ spot, navigability, yAxisMax, currentWeather, station
         {/* Only render heavy content (charts) when expanded for performance */}
         {isExpanded && (
           <div className="px-4 pb-4 space-y-4">
+            {spot.degradedParams && spot.degradedParams.length > 0 && (
+              <p className="px-3 py-2 rounded-lg bg-amber-50 dark:bg-amber-500/10 text-xs text-amber-700 dark:text-amber-400">
+                Données dégradées : {spot.degradedParams.map(forecastParamName).join(', ')} non mis à jour
+                lors de la dernière actualisation (valeurs précédentes ou absentes).
+              </p>
+            )}
             {displayDays.map((day) => (
               <DayForecast
                 key={day.date}
                 day={day}
                 label={dayLabel(day.date)}
-                navigability={navigability}
+                navigability={chartLimits}
+                classifyWind={classifyWind}
+                showMinimums={!navigabilityRule}
                 yAxisMax={yAxisMax}
+                observations={observations}
+                waterSeries={spot.waterTemp.series}
+                sizing={sizing}
               />
             ))}
 
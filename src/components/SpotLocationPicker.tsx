@@ -1,7 +1,8 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { MapContainer, TileLayer, Marker, useMapEvents, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Polygon, useMapEvents, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import type { WindSectors } from '../types/forecast';
 
 interface GeoAdminResult {
   label: string;
@@ -24,6 +25,9 @@ interface SpotLocationPickerProps {
   lon?: number;
   onChange: (lat: number, lon: number) => void;
   onSearchSelect?: (result: SearchResult) => void;
+  /** When provided, wind sectors are drawn around the marker and toggled by clicking them. */
+  sectors?: WindSectors;
+  onSectorsChange?: (sectors: WindSectors) => void;
 }
 
 const DEFAULT_CENTER: [number, number] = [46.50, 6.60];
@@ -44,6 +48,49 @@ const PICKER_ICON = L.divIcon({
   </svg>`,
 });
 
+const SECTOR_RADIUS_M = 600;
+const SECTOR_COUNT = 16;
+const SECTOR_STYLES = {
+  none: { color: '#64748b', fillColor: '#94a3b8', fillOpacity: 0.08, weight: 1 },
+  good: { color: '#15803d', fillColor: '#22c55e', fillOpacity: 0.35, weight: 1 },
+  dangerous: { color: '#b91c1c', fillColor: '#ef4444', fillOpacity: 0.35, weight: 1 },
+};
+
+/**
+ * Polygon of one 22.5° wedge pointing towards the direction the wind comes from.
+ */
+function sectorWedge(lat: number, lon: number, index: number): [number, number][] {
+  const metersPerDegLat = 111320;
+  const metersPerDegLon = 111320 * Math.cos((lat * Math.PI) / 180);
+  const points: [number, number][] = [[lat, lon]];
+  for (let step = 0; step <= 6; step++) {
+    const deg = index * 22.5 - 11.25 + step * 3.75;
+    const rad = (deg * Math.PI) / 180;
+    points.push([
+      lat + (SECTOR_RADIUS_M * Math.cos(rad)) / metersPerDegLat,
+      lon + (SECTOR_RADIUS_M * Math.sin(rad)) / metersPerDegLon,
+    ]);
+  }
+  return points;
+}
+
+/**
+ * Cycle a sector through neutral → good → dangerous → neutral.
+ */
+function toggleSector(sectors: WindSectors, index: number): WindSectors {
+  if (sectors.good.includes(index)) {
+    return {
+      ...sectors,
+      good: sectors.good.filter((i) => i !== index),
+      dangerous: [...sectors.dangerous, index].sort((a, b) => a - b),
+    };
+  }
+  if (sectors.dangerous.includes(index)) {
+    return { ...sectors, dangerous: sectors.dangerous.filter((i) => i !== index) };
+  }
+  return { ...sectors, good: [...sectors.good, index].sort((a, b) => a - b) };
+}
+
 // --- Sub-components rendered inside MapContainer ---
 
 function MapRefSetter({ onMap }: { onMap: (map: L.Map) => void }) {
@@ -89,9 +136,28 @@ function MapClickHandler({ onChange }: { onChange: (lat: number, lon: number) =>
   return null;
 }
 
+function SectorWedges({ lat, lon, sectors, onChange }: { lat: number; lon: number; sectors: WindSectors; onChange: (sectors: WindSectors) => void }) {
+  return (
+    <>
+      {Array.from({ length: SECTOR_COUNT }, (_, i) => {
+        const state = sectors.good.includes(i) ? 'good' : sectors.dangerous.includes(i) ? 'dangerous' : 'none';
+        return (
+          <Polygon
+            key={i}
+            positions={sectorWedge(lat, lon, i)}
+            pathOptions={SECTOR_STYLES[state]}
+            bubblingMouseEvents={false}
+            eventHandlers={{ click: () => onChange(toggleSector(sectors, i)) }}
+          />
+        );
+      })}
+    </>
+  );
+}
+
 // --- Main component ---
 
-export function SpotLocationPicker({ lat, lon, onChange, onSearchSelect }: SpotLocationPickerProps) {
+export function SpotLocationPicker({ lat, lon, onChange, onSearchSelect, sectors, onSectorsChange }: SpotLocationPickerProps) {
   const hasCoords = lat != null && lon != null;
   const center: [number, number] = hasCoords ? [lat, lon] : DEFAULT_CENTER;
   const zoom = hasCoords ? EDIT_ZOOM : DEFAULT_ZOOM;
@@ -196,6 +262,14 @@ export function SpotLocationPicker({ lat, lon, onChange, onSearchSelect }: SpotL
           />
           <MapRefSetter onMap={setMapInstance} />
           <MapClickHandler onChange={handlePositionChange} />
+          {pos && onSectorsChange && (
+            <SectorWedges
+              lat={pos.lat}
+              lon={pos.lon}
+              sectors={sectors ?? { good: [], dangerous: [] }}
+              onChange={onSectorsChange}
+            />
+          )}
           {pos && <DraggableMarker lat={pos.lat} lon={pos.lon} onChange={handlePositionChange} />}
         </MapContainer>
       </div>
@@ -206,6 +280,14 @@ export function SpotLocationPicker({ lat, lon, onChange, onSearchSelect }: SpotL
           {pos.lat.toFixed(4)}, {pos.lon.toFixed(4)}
         </p>
       )}
+      {pos && onSectorsChange && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Cliquez sur les secteurs autour du marqueur pour indiquer d'où le vent doit venir :
+          <span className="text-green-600 dark:text-green-400"> vert = favorable</span>,
+          <span className="text-red-600 dark:text-red-400"> rouge = dangereux</span>.
+          Sans secteur vert, toutes les directions non dangereuses sont admises.
+        </p>
+      )}
     </div>
   );
 }
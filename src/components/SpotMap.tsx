@@ -5,6 +5,8 @@ import L from 'leaflet';
 import type { SpotForecast, CurrentWeather, NavigabilityConfig } from '../types/forecast';
 import { SpotMapMarker } from './SpotMapMarker';
 import { TimeSlider, type TimeStep } from './TimeSlider';
+import { isInDayWindow } from '../utils/navigability';
+import type { SizingContext } from '../utils/sizing';
 
 interface SpotMapProps {
   spots: SpotForecast[];
@@ -12,9 +14,10 @@ interface SpotMapProps {
   stationByPointId: Map<string, string>;
   forecastDays: number;
   navigability: NavigabilityConfig;
+  sizing: SizingContext | null;
 }
 
-/** Build a flat timeline of {date, hour} steps from the forecast data, filtered to [dayStart, dayEnd). */
+/** Build a flat timeline of {date, hour} steps from the forecast data, filtered to each day's navigation window. */
 function buildTimeline(spots: SpotForecast[], forecastDays: number, config: NavigabilityConfig): TimeStep[] {
   // Collect all unique date+hour pairs from all spots
   const seen = new Set<string>();
@@ -27,18 +30,21 @@ function buildTimeline(spots: SpotForecast[], forecastDays: number, config: Navi
     const days = spot.days.filter((d) => d.date >= todayStr).slice(0, forecastDays);
     for (const day of days) {
       for (const h of day.hourly) {
-        if (h.hour < config.dayStartHour || h.hour >= config.dayEndHour) continue;
-        const key = `${day.date}-${h.hour}`;
+        if (!isInDayWindow(h.hour, config, day.daylight)) continue;
+        const key = h.time !== undefined ? String(h.time) : `${day.date}-${h.hour}`;
         if (!seen.has(key)) {
           seen.add(key);
-          steps.push({ date: day.date, hour: h.hour });
+          steps.push({ date: day.date, hour: h.hour, time: h.time, utcOffset: h.utcOffset });
         }
       }
     }
   }
 
-  // Sort chronologically
-  steps.sort((a, b) => a.date.localeCompare(b.date) || a.hour - b.hour);
+  // Sort chronologically (by UTC time when known: local hours repeat or skip on DST days)
+  steps.sort((a, b) =>
+    a.time !== undefined && b.time !== undefined
+      ? a.time - b.time
+      : a.date.localeCompare(b.date) || a.hour - b.hour);
   return steps;
 }
 
@@ -49,6 +55,16 @@ function currentIndex(steps: TimeStep[]): number {
   const todayStr = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
   const currentHour = now.getHours();
 
+  // Steps with a UTC time: the one closest to the current hour
+  if (steps.every((s) => s.time !== undefined)) {
+    const hourStart = Math.floor(now.getTime() / 3600_000) * 3600_000;
+    let closest = 0;
+    for (let i = 1; i < steps.length; i++) {
+      if (Math.abs(steps[i].time! - hourStart) < Math.abs(steps[closest].time! - hourStart)) closest = i;
+    }
+    return closest;
+  }
+
   let best = 0;
   let bestDist = Infinity;
   for (let i = 0; i < steps.length; i++) {
@@ -65,7 +81,7 @@ function currentIndex(steps: TimeStep[]): number {
   return best;
 }
 
-export default function SpotMap({ spots, currentWeather, stationByPointId, forecastDays, navigability }: SpotMapProps) {
+export default function SpotMap({ spots, currentWeather, stationByPointId, forecastDays, navigability, sizing }: SpotMapProps) {
   const bounds = useMemo(() => {
     if (spots.length === 0) return undefined;
     if (spots.length === 1) {
@@ -115,7 +131,8 @@ export default function SpotMap({ spots, currentWeather, stationByPointId, forec
               currentWeather={currentWeather.get(stationByPointId.get(spot.pointId) ?? '') ?? null}
               selectedDate={selected.date}
               selectedHour={selected.hour}
-              navigability={navigability}
+              selectedTime={selected.time}
+              sizing={sizing}
             />
           ))}
         </MapContainer>
@@ -1,28 +1,26 @@
 import { useMemo } from 'react';
 import { Marker, Popup } from 'react-leaflet';
 import L from 'leaflet';
-import type { SpotForecast, CurrentWeather, NavigabilityConfig, HourlyData } from '../types/forecast';
+import type { SpotForecast, CurrentWeather, HourlyData } from '../types/forecast';
 import { lakeName } from '../utils/format';
+import { formatSizeSuggestions, suggestSizes, type SizingContext } from '../utils/sizing';
 
 interface SpotMapMarkerProps {
   spot: SpotForecast;
   currentWeather: CurrentWeather | null;
   selectedDate: string;
   selectedHour: number;
-  navigability: NavigabilityConfig;
+  selectedTime?: number;
+  sizing: SizingContext | null;
 }
 
 type NavStatus = 'navigable' | 'not-navigable';
 
 const PIN_PATH = 'M28 3 C40 3 49 13 49 25 C49 37 28 53 28 53 C28 53 7 37 7 25 C7 13 16 3 28 3Z';
 
-function isHourNavigable(h: HourlyData, config: NavigabilityConfig): boolean {
-  return h.speed >= config.windSpeedMin && h.gust >= config.gustMin;
-}
-
-function findHourly(spot: SpotForecast, date: string, hour: number): HourlyData | undefined {
+function findHourly(spot: SpotForecast, date: string, hour: number, time?: number): HourlyData | undefined {
   const day = spot.days.find((d) => d.date === date);
-  return day?.hourly.find((h) => h.hour === hour);
+  return day?.hourly.find((h) => (time !== undefined && h.time !== undefined ? h.time === time : h.hour === hour));
 }
 
 function makeIcon(status: NavStatus) {
@@ -69,9 +67,14 @@ function makeIcon(status: NavStatus) {
   });
 }
 
-export function SpotMapMarker({ spot, currentWeather, selectedDate, selectedHour, navigability }: SpotMapMarkerProps) {
-  const hourly = findHourly(spot, selectedDate, selectedHour);
-  const navigable = hourly ? isHourNavigable(hourly, navigability) : false;
+export function SpotMapMarker({ spot, currentWeather, selectedDate, selectedHour, selectedTime, sizing }: SpotMapMarkerProps) {
+  const hourly = findHourly(spot, selectedDate, selectedHour, selectedTime);
+  // Same verdict as the list view: the hour belongs to a navigable slot
+  const slot = spot.days
+    .find((d) => d.date === selectedDate)
+    ?.slots.find((s) => selectedHour >= s.start && selectedHour < s.end);
+  const navigable = !!slot;
+  const sizeHint = slot && sizing ? formatSizeSuggestions(suggestSizes(slot, sizing)) : '';
   const status: NavStatus = navigable ? 'navigable' : 'not-navigable';
 
   const icon = useMemo(
@@ -114,6 +117,9 @@ export function SpotMapMarker({ spot, currentWeather, selectedDate, selectedHour
               <div className={`mt-1 text-xs font-medium ${navigable ? 'text-green-600' : 'text-slate-400'}`}>
                 {navigable ? 'Navigable' : 'Pas navigable'}
               </div>
+              {sizeHint && (
+                <div className="mt-0.5 text-xs text-green-700">Taille conseillée : {sizeHint}</div>
+              )}
             </div>
           ) : (
             <div className="mb-2 px-2 py-1.5 rounded-md bg-slate-100 text-xs text-slate-400">
@@ -0,0 +1,70 @@
+import type { ForecastParam, SpotProvenance } from '../types/forecast';
+import { forecastParamName, lakeName, runTime, upstreamName } from '../utils/format';
+
+interface SpotProvenanceInfoProps {
+  provenance: SpotProvenance;
+  onClose: () => void;
+}
+
+function distance(km?: number): string {
+  return km !== undefined ? ` · à ${km.toLocaleString('fr-CH')} km` : '';
+}
+
+function dateTime(ms: number): string {
+  return new Date(ms).toLocaleString('fr-CH', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+/** Model runs used: one time when every parameter shares it, otherwise the parameters of each run. */
+function runsText(runs: Partial<Record<ForecastParam, string>>): string {
+  const byRun = new Map<string, ForecastParam[]>();
+  for (const [param, run] of Object.entries(runs) as [ForecastParam, string][]) {
+    byRun.set(run, [...(byRun.get(run) ?? []), param]);
+  }
+  if (byRun.size === 1) return ` · run de ${runTime([...byRun.keys()][0])}`;
+  return ' · runs de ' + [...byRun]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([run, params]) => `${runTime(run)} (${params.map(forecastParamName).join(', ')})`)
+    .join(', ');
+}
+
+/** Where a spot's forecast, water temperature and current conditions come from. */
+export function SpotProvenanceInfo({ provenance, onClose }: SpotProvenanceInfoProps) {
+  const { forecastPoint, runs, alplakes, station } = provenance;
+
+  return (
+    <div className="mx-4 mb-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 space-y-1.5 text-xs">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-slate-600 dark:text-slate-300">Sources des données</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+          aria-label="Fermer"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="text-slate-600 dark:text-slate-300">
+        <span className="text-slate-400">Prévisions :</span>{' '}
+        {upstreamName(provenance.provider)},{' '}
+        {provenance.provider === 'grid' ? 'maille du modèle' : `point ${forecastPoint.name ?? forecastPoint.id}`}
+        {distance(forecastPoint.distanceKm)}
+        {runs && runsText(runs)}
+      </p>
+      {alplakes && (
+        <p className="text-slate-600 dark:text-slate-300">
+          <span className="text-slate-400">Eau :</span> Alplakes, {lakeName(alplakes.lake)}
+          {alplakes.simulationUpdatedAt !== undefined && ` · simulation publiée le ${dateTime(alplakes.simulationUpdatedAt)}`}
+          {alplakes.simulationStart !== undefined && ` (débute le ${dateTime(alplakes.simulationStart)})`}
+        </p>
+      )}
+      {station && (
+        <p className="text-slate-600 dark:text-slate-300">
+          <span className="text-slate-400">Vent actuel :</span> station SMN {station.name ?? station.id}
+          {distance(station.distanceKm)}
+          {station.observedAt && ` · mesure de ${runTime(station.observedAt)} lors de la mise à jour`}
+        </p>
+      )}
+    </div>
+  );
+}
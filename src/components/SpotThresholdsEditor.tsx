@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { NavigabilityConfig, SpotThresholds } from '../types/forecast';
+
+interface SpotThresholdsEditorProps {
+  override?: SpotThresholds;
+  /** The user's thresholds for all spots, shown as placeholders; their maximums bound the minimums. */
+  defaults: Pick<NavigabilityConfig, 'windSpeedMin' | 'gustMin' | 'windSpeedMax' | 'gustMax'>;
+  /** Rejects when the save fails; the editor then stays open with an error. */
+  onSave: (override: SpotThresholds | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none text-sm';
+
+const SPEED_RANGE = { min: 5, max: 40 };
+const GUST_RANGE = { min: 10, max: 60 };
+
+function parseValue(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Why a minimum can't be saved, or null: it must be a number within the
+ * input's range and not above the matching maximum for all spots.
+ */
+function valueError(label: string, value: number | undefined, range: { min: number; max: number }, upper?: number): string | null {
+  if (value === undefined) return null;
+  if (!Number.isFinite(value) || value < range.min || value > range.max) {
+    return `${label} : entre ${range.min} et ${range.max} km/h.`;
+  }
+  if (upper !== undefined && value > upper) return `${label} : au plus ${upper} km/h (ton maximum).`;
+  return null;
+}
+
+export function SpotThresholdsEditor({ override, defaults, onSave, onClose }: SpotThresholdsEditorProps) {
+  const [windSpeedMin, setWindSpeedMin] = useState(override?.windSpeedMin?.toString() ?? '');
+  const [gustMin, setGustMin] = useState(override?.gustMin?.toString() ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function save(value: SpotThresholds | null) {
+    setSaving(true);
+    try {
+      await onSave(value);
+      onClose();
+    } catch {
+      setError("Impossible d'enregistrer les seuils, réessaie.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleSave() {
+    const speed = parseValue(windSpeedMin);
+    const gust = parseValue(gustMin);
+    const invalid = valueError('Vent min', speed, SPEED_RANGE, defaults.windSpeedMax) ??
+      valueError('Rafales min', gust, GUST_RANGE, defaults.gustMax);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    // Firestore rejects undefined fields: only keep the ones set
+    save({
+      ...(speed !== undefined && { windSpeedMin: speed }),
+      ...(gust !== undefined && { gustMin: gust }),
+    });
+  }
+
+  return (
+    <div className="mx-4 mb-3 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 space-y-2">
+      <p className="text-xs font-medium text-slate-600 dark:text-slate-300">Seuils pour ce spot</p>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-500 dark:text-slate-400">
+          Vent min (km/h)
+          <input
+            type="number"
+            min={SPEED_RANGE.min}
+            max={SPEED_RANGE.max}
+            step={1}
+            value={windSpeedMin}
+            placeholder={String(defaults.windSpeedMin)}
+            onChange={(e) => { setWindSpeedMin(e.target.value); setError(null); }}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-slate-500 dark:text-slate-400">
+          Rafales min (km/h)
+          <input
+            type="number"
+            min={GUST_RANGE.min}
+            max={GUST_RANGE.max}
+            step={1}
+            value={gustMin}
+            placeholder={String(defaults.gustMin)}
+            onChange={(e) => { setGustMin(e.target.value); setError(null); }}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      {error
+        ? <p className="text-[11px] text-red-600 dark:text-red-400">{error}</p>
+        : <p className="text-[11px] text-slate-400">Laisse vide pour utiliser tes seuils généraux.</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 py-1.5 rounded-lg bg-teal-600 text-white text-xs font-medium hover:bg-teal-700 transition-colors disabled:opacity-50"
+        >
+          Enregistrer
+        </button>
+        {override && (
+          <button
+            type="button"
+            onClick={() => save(null)}
+            disabled={saving}
+            className="px-3 py-1.5 rounded-lg text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            Réinitialiser
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-lg text-xs text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+        >
+          Annuler
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { useMemo } from 'react';
 export interface TimeStep {
   date: string;
   hour: number;
+  time?: number; // UTC ms, distinguishes the repeated hour on the autumn DST day
+  utcOffset?: number; // minutes
 }
 
 interface TimeSliderProps {
@@ -40,12 +42,16 @@ export function TimeSlider({ steps, index, onChange }: TimeSliderProps) {
   if (steps.length === 0) return null;
 
   const current = steps[index];
+  // The autumn DST change repeats a local hour: tell both apart by their UTC offset
+  const repeated = current.utcOffset !== undefined &&
+    steps.some((s) => s !== current && s.date === current.date && s.hour === current.hour);
 
   return (
     <div className="mt-3 px-2">
       {/* Current time label */}
       <div className="text-center text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
         {shortDay(current.date)} {current.hour}h
+        {repeated && ` (UTC+${current.utcOffset! / 60})`}
       </div>
 
       {/* Slider */}
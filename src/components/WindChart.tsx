@@ -1,7 +1,8 @@
 import { useMemo, useRef, useState, useEffect, useCallback } from 'react';
 import {
-  BarChart,
+  ComposedChart,
   Bar,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
@@ -9,25 +10,67 @@ import {
   ReferenceArea,
   ResponsiveContainer,
   Rectangle,
+  Cell,
 } from 'recharts';
-import type { HourlyData, NavigableSlot, NavigabilityConfig } from '../types/forecast';
+import type { Daylight, HourlyData, NavigableSlot, NavigabilityConfig, WindClass } from '../types/forecast';
+import { clockTime } from '../utils/format';
 
 interface WindChartProps {
   hourly: HourlyData[];
   slots: NavigableSlot[];
+  /** Thresholds drawn as lines; the minimums only when showMinimums (a rule replaces them). */
   navigability: NavigabilityConfig;
+  /** Colour class of an hour's bar, under the same criteria as the slots. */
+  classifyWind: (h: HourlyData) => WindClass;
+  showMinimums: boolean;
   yAxisMax: number;
   currentHour?: number | null;
+  /** Observed wind of the elapsed hours, keyed by the start of the hour (UTC ms) like HourlyData.time. */
+  observed?: Map<number, ObservedHour>;
+  /** Sunrise and sunset; hours outside are shaded. */
+  daylight?: Daylight;
 }
 
+export interface ObservedHour {
+  wind: number;
+  gust: number | null;
+}
+
+/** Mean observed − forecast difference (km/h) below which the forecast counts as on track. */
+const ON_TRACK_KMH = 2;
+
+const WIND_CLASS_COLORS: Record<WindClass, string> = {
+  'too-light': '#94a3b8',
+  'good': '#14b8a6',
+  'overpowered': '#ef4444',
+  'too-gusty': '#a855f7',
+};
+
+const WIND_CLASS_LABELS: Record<WindClass, string> = {
+  'too-light': 'Trop faible',
+  'good': 'Bon',
+  'overpowered': 'Trop fort',
+  'too-gusty': 'Trop rafaleux',
+};
+
 interface ChartEntry {
-  label: string;
+  /** X-axis category: the UTC time, unique even when a local hour repeats on the autumn DST day. */
+  key: string;
   hour: number;
   wind: number;
   gustExtra: number;
   dir: number;
   dirText: string;
   navigable: boolean;
+  windClass: WindClass;
+  raw?: { speed: number; gust: number };
+  temp?: number;
+  precip?: number;
+  precipProb?: number;
+  cloud?: number;
+  thunderstorm?: boolean;
+  observedWind?: number;
+  observedGust?: number;
 }
 
 function TooltipContent({ data }: { data: ChartEntry }) {
@@ -38,6 +81,29 @@ function TooltipContent({ data }: { data: ChartEntry }) {
       <p className="text-teal-600 dark:text-teal-400">Vent: {data.wind} km/h</p>
       <p className="text-orange-600 dark:text-orange-400">Rafales: {totalGust} km/h</p>
       <p className="text-slate-500 dark:text-slate-400">Direction: {data.dirText}</p>
+      <p style={{ color: WIND_CLASS_COLORS[data.windClass] }}>{WIND_CLASS_LABELS[data.windClass]}</p>
+      {data.observedWind !== undefined && (
+        <p className="text-slate-700 dark:text-slate-200">
+          Mesuré: {data.observedWind}{data.observedGust !== undefined && `–${data.observedGust}`} km/h
+        </p>
+      )}
+      {data.raw && (
+        <p className="text-slate-400 dark:text-slate-500">Brut: {data.raw.speed}–{data.raw.gust} km/h</p>
+      )}
+      {data.temp !== undefined && (
+        <p className="text-slate-500 dark:text-slate-400">Température: {data.temp}°C</p>
+      )}
+      {(data.precip !== undefined || data.precipProb !== undefined) && (
+        <p className="text-blue-600 dark:text-blue-400">
+          Pluie: {data.precip ?? 0} mm{data.precipProb !== undefined && ` (${data.precipProb}%)`}
+        </p>
+      )}
+      {data.cloud !== undefined && (
+        <p className="text-slate-500 dark:text-slate-400">Nuages: {data.cloud}%</p>
+      )}
+      {data.thunderstorm && (
+        <p className="font-medium text-red-600 dark:text-red-400">⚡ Risque d'orage</p>
+      )}
     </div>
   );
 }
@@ -69,19 +135,57 @@ function GustBarWithArrow(props: any) {
   );
 }
 
-export function WindChart({ hourly, slots, navigability, yAxisMax, currentHour }: WindChartProps) {
+export function WindChart({ hourly, slots, navigability, classifyWind, showMinimums, yAxisMax, currentHour, observed, daylight }: WindChartProps) {
   const chartData = useMemo<ChartEntry[]>(() => hourly.map((h) => {
     const navigable = slots.some((s) => h.hour >= s.start && h.hour < s.end);
+    const obs = h.time !== undefined ? observed?.get(h.time) : undefined;
     return {
-      label: `${h.hour}`,
+      key: String(h.time ?? h.hour),
       hour: h.hour,
       wind: Math.round(h.speed * 10) / 10,
       gustExtra: Math.max(0, Math.round((h.gust - h.speed) * 10) / 10),
       dir: h.dir,
       dirText: h.dirText,
       navigable,
+      windClass: classifyWind(h),
+      raw: h.raw,
+      temp: h.temp,
+      precip: h.precip,
+      precipProb: h.precipProb,
+      cloud: h.cloud,
+      thunderstorm: h.thunderstorm,
+      observedWind: obs?.wind,
+      observedGust: obs?.gust ?? undefined,
     };
-  }), [hourly, slots]);
+  }), [hourly, slots, classifyWind, observed]);
+
+  // Category of a local hour: its first occurrence, or its last one for the end of a range
+  const keyOf = useCallback((hour: number, last = false) => {
+    const entries = chartData.filter((d) => d.hour === hour);
+    return (last ? entries[entries.length - 1] : entries[0])?.key ?? String(hour);
+  }, [chartData]);
+
+  // Hours before sunrise and after sunset (midpoint outside daylight)
+  const darkRanges = useMemo(() => {
+    if (!daylight) return [];
+    const dark = hourly
+      .filter((h) => h.hour * 60 + 30 < daylight.sunrise || h.hour * 60 + 30 > daylight.sunset)
+      .map((h) => h.hour);
+    const before = dark.filter((h) => h * 60 < daylight.sunrise);
+    const after = dark.filter((h) => h * 60 > daylight.sunrise);
+    return [before, after]
+      .filter((hours) => hours.length > 0)
+      .map((hours) => ({ from: hours[0], to: hours[hours.length - 1] }));
+  }, [hourly, daylight]);
+
+  // Mean observed − forecast wind over the elapsed hours
+  const trend = useMemo(() => {
+    const diffs = chartData
+      .filter((d) => d.observedWind !== undefined)
+      .map((d) => d.observedWind! - d.wind);
+    if (diffs.length === 0) return null;
+    return Math.round((diffs.reduce((a, b) => a + b, 0) / diffs.length) * 10) / 10;
+  }, [chartData]);
 
   // --- Touch tooltip ---
   const chartContainerRef = useRef<HTMLDivElement>(null);
@@ -216,11 +320,11 @@ export function WindChart({ hourly, slots, navigability, yAxisMax, currentHour }
       onTouchCancel={handleTouchEnd}
     >
       <ResponsiveContainer width="100%" height={140}>
-        <BarChart data={chartData} margin={{ top: 18, right: 20, bottom: 6, left: -25 }}>
+        <ComposedChart data={chartData} margin={{ top: 18, right: 20, bottom: 6, left: -25 }}>
           <XAxis
-            dataKey="label"
+            dataKey="key"
             tick={({ x, y, payload }: any) => {
-              const hour = Number(payload.value);
+              const hour = chartData[payload.index ?? 0]?.hour ?? 0;
               const isNavigable = slots.some((s) => hour >= s.start && hour < s.end);
               const halfBand = payload.offset ?? 15;
               const showLabel = (payload.index ?? 0) % 2 === 0;
@@ -244,7 +348,7 @@ export function WindChart({ hourly, slots, navigability, yAxisMax, currentHour }
                       fontWeight={isNavigable ? 700 : 400}
                       fontSize={11}
                     >
-                      {payload.value}
+                      {hour}
                     </text>
                   )}
                 </g>
@@ -265,30 +369,58 @@ export function WindChart({ hourly, slots, navigability, yAxisMax, currentHour }
           {slots.map((slot, i) => (
             <ReferenceArea
               key={`bg-${i}`}
-              x1={String(slot.start)}
-              x2={String(slot.end - 1)}
+              x1={keyOf(slot.start)}
+              x2={keyOf(slot.end - 1, true)}
               fill="#10b981"
               fillOpacity={0.10}
               stroke="none"
             />
           ))}
 
+          {/* Darkness before sunrise and after sunset */}
+          {darkRanges.map((r) => (
+            <ReferenceArea
+              key={`dark-${r.from}`}
+              x1={keyOf(r.from)}
+              x2={keyOf(r.to, true)}
+              fill="#334155"
+              fillOpacity={0.12}
+              stroke="none"
+            />
+          ))}
+
           {/* Threshold lines */}
-          <ReferenceLine
-            y={navigability.windSpeedMin}
-            stroke="#10b981"
-            strokeDasharray="4 4"
-            label={{ value: String(navigability.windSpeedMin), position: 'right', fontSize: 10, fill: '#10b981' }}
-          />
-          <ReferenceLine
-            y={navigability.gustMin}
-            stroke="#f59e0b"
-            strokeDasharray="4 4"
-            label={{ value: String(navigability.gustMin), position: 'right', fontSize: 10, fill: '#f59e0b' }}
-          />
+          {showMinimums && (
+            <ReferenceLine
+              y={navigability.windSpeedMin}
+              stroke="#10b981"
+              strokeDasharray="4 4"
+              label={{ value: String(navigability.windSpeedMin), position: 'right', fontSize: 10, fill: '#10b981' }}
+            />
+          )}
+          {showMinimums && (
+            <ReferenceLine
+              y={navigability.gustMin}
+              stroke="#f59e0b"
+              strokeDasharray="4 4"
+              label={{ value: String(navigability.gustMin), position: 'right', fontSize: 10, fill: '#f59e0b' }}
+            />
+          )}
+          {navigability.windSpeedMax <= yAxisMax && (
+            <ReferenceLine
+              y={navigability.windSpeedMax}
+              stroke="#ef4444"
+              strokeDasharray="4 4"
+              label={{ value: String(navigability.windSpeedMax), position: 'right', fontSize: 10, fill: '#ef4444' }}
+            />
+          )}
 
           {/* Stacked bars: wind + extra gust (top bar renders arrows) */}
-          <Bar dataKey="wind" stackId="wind" fill="#14b8a6" radius={[0, 0, 0, 0]} isAnimationActive={false} />
+          <Bar dataKey="wind" stackId="wind" fill="#14b8a6" radius={[0, 0, 0, 0]} isAnimationActive={false}>
+            {chartData.map((d) => (
+              <Cell key={d.key} fill={WIND_CLASS_COLORS[d.windClass]} />
+            ))}
+          </Bar>
           <Bar
             dataKey="gustExtra"
             stackId="wind"
@@ -299,10 +431,30 @@ export function WindChart({ hourly, slots, navigability, yAxisMax, currentHour }
             isAnimationActive={false}
           />
 
+          {/* Observed wind (line) and gusts (markers) for elapsed hours */}
+          {trend !== null && (
+            <Line
+              dataKey="observedWind"
+              stroke="#64748b"
+              strokeWidth={2}
+              dot={{ r: 2, fill: '#64748b', stroke: 'none' }}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          )}
+          {trend !== null && (
+            <Line
+              dataKey="observedGust"
+              stroke="none"
+              dot={{ r: 2.5, fill: '#ea580c', stroke: 'none' }}
+              isAnimationActive={false}
+            />
+          )}
+
           {/* Current time marker — isFront renders above bars */}
           {currentHour != null && chartData.some((d) => d.hour === currentHour) && (
             <ReferenceLine
-              x={String(currentHour)}
+              x={keyOf(currentHour, true)}
               stroke="#ef4444"
               strokeWidth={2}
               strokeDasharray="4 2"
@@ -315,9 +467,42 @@ export function WindChart({ hourly, slots, navigability, yAxisMax, currentHour }
             cursor={false}
             wrapperStyle={touchTooltip ? { visibility: 'hidden' } : undefined}
           />
-        </BarChart>
+        </ComposedChart>
       </ResponsiveContainer>
 
+      {daylight && (
+        <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+          🌅 Lever {clockTime(daylight.sunrise)} · 🌇 Coucher {clockTime(daylight.sunset)}
+        </p>
+      )}
+
+      {/* Bar colour legend, shown when some hour exceeds the upper limits */}
+      {chartData.some((d) => d.windClass === 'overpowered' || d.windClass === 'too-gusty') && (
+        <p className="mt-1 flex flex-wrap gap-x-3 text-[11px] text-slate-500 dark:text-slate-400">
+          {(['good', 'overpowered', 'too-gusty'] as const).map((c) => (
+            <span key={c} className="inline-flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: WIND_CLASS_COLORS[c] }} />
+              {WIND_CLASS_LABELS[c]}
+            </span>
+          ))}
+        </p>
+      )}
+
+      {/* Observed vs forecast indicator */}
+      {trend !== null && (
+        <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+          <span className="inline-block w-3 h-0.5 align-middle bg-slate-500 mr-1" />
+          Mesuré :{' '}
+          {Math.abs(trend) < ON_TRACK_KMH ? (
+            <span className="text-green-600 dark:text-green-400">conforme à la prévision</span>
+          ) : trend > 0 ? (
+            <span className="text-amber-600 dark:text-amber-400">plus de vent que prévu (+{trend} km/h)</span>
+          ) : (
+            <span className="text-blue-600 dark:text-blue-400">moins de vent que prévu ({trend} km/h)</span>
+          )}
+        </p>
+      )}
+
       {/* Touch tooltip overlay */}
       {touchTooltip && chartData[touchTooltip.index] && (
         <div
@@ -46,6 +46,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return unsubscribe;
   }, []);
 
+  // Applied at once; rolled back and rethrown when the write fails, for the caller to report
   const updatePreferences = useCallback(
     async (partial: Partial<UserPreferences>) => {
       if (!user) return;
@@ -58,6 +59,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         );
       } catch (err) {
         console.error('Failed to save preferences:', err);
+        // Unless a later update replaced it meanwhile
+        setPreferences((current) => (current === merged ? preferences : current));
+        throw err;
       }
     },
     [user, preferences],
@@ -11,7 +11,7 @@ interface UseConfigResult {
 
 const DEFAULT_NAVIGABILITY: NavigabilityConfig = {
   windSpeedMin: 15,
-  windSpeedMax: 20,
+  windSpeedMax: 40,
   gustMin: 25,
   minConsecutiveHours: 2,
   dayStartHour: 7,
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { clampLimits } from '../utils/navigability';
 import type { NavigabilityConfig } from '../types/forecast';
 
 export function useEffectiveConfig(
@@ -11,10 +12,11 @@ export function useEffectiveConfig(
     if (!globalConfig) return null;
     if (!preferences) return globalConfig;
 
-    return {
+    return clampLimits({
       ...globalConfig,
       windSpeedMin: preferences.windSpeedMin,
       gustMin: preferences.gustMin,
-    };
+      ...(preferences.daylightMargin != null && { daylightMargin: preferences.daylightMargin }),
+    });
   }, [globalConfig, preferences]);
 }
@@ -24,7 +24,9 @@ export function useFavorites() {
       const next = current.includes(pointId)
         ? current.filter((id) => id !== pointId)
         : [...current, pointId];
-      updatePreferences({ favoriteSpots: next });
+      updatePreferences({ favoriteSpots: next }).catch(() => {
+        // Rolled back by updatePreferences: the star shows the saved state again
+      });
     },
     [user, preferences?.favoriteSpots, updatePreferences],
   );
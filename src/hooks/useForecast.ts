@@ -1,10 +1,23 @@
-import { useState, useEffect, useCallback } from 'react';
-import { doc, onSnapshot } from 'firebase/firestore';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { db, functions } from '../config/firebase';
-import type { ForecastData } from '../types/forecast';
+import type { ForecastData, ForecastManifest, RefreshConfig, SpotForecast } from '../types/forecast';
+import { clampRefreshMinutes } from '../utils/refreshConfig';
 
-const DATA_TTL_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_DATA_TTL_MS = 60 * 60 * 1000; // 1 hour, overridden by config/refresh
+const REFRESH_POLL_MAX_MS = 3 * 60 * 1000; // stop waiting for another instance's refresh after 3 minutes
+
+/** Response of the refreshForecast callable. */
+interface RefreshResponse {
+  status: 'fresh' | 'in-progress' | 'refreshed';
+  message: string;
+  retryAfterMs?: number;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 interface UseForecastResult {
   data: ForecastData | null;
@@ -15,12 +28,19 @@ interface UseForecastResult {
   dismissError: () => void;
 }
 
-export function useForecast(): UseForecastResult {
-  const [data, setData] = useState<ForecastData | null>(null);
-  const [loading, setLoading] = useState(true);
+/**
+ * Latest forecast: the `forecasts/latest` manifest plus the documents of the
+ * requested spots only (`forecasts/latest/spots/{pointId}`).
+ * `pointIds` is null while the spots to show are not known yet.
+ */
+export function useForecast(pointIds: string[] | null): UseForecastResult {
+  const [manifest, setManifest] = useState<ForecastManifest | null>(null);
+  const [spotsById, setSpotsById] = useState<Record<string, SpotForecast>>({});
+  const [manifestLoading, setManifestLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [needsRefresh, setNeedsRefresh] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const dataTtlMs = useRef(DEFAULT_DATA_TTL_MS);
 
   const dismissError = useCallback(() => setError(null), []);
 
@@ -29,11 +49,19 @@ export function useForecast(): UseForecastResult {
     setRefreshing(true);
     setError(null);
     try {
-      const refreshFn = httpsCallable(functions, 'refreshForecast');
-      await refreshFn({ force: options?.force ?? false });
+      const refreshFn = httpsCallable<{ force: boolean }, RefreshResponse>(functions, 'refreshForecast');
+      let result = (await refreshFn({ force: options?.force ?? false })).data;
+      // Another instance is refreshing: poll until it is done. The manifest
+      // listener picks up its data; a finished refresh answers 'fresh'.
+      const deadline = Date.now() + REFRESH_POLL_MAX_MS;
+      while (result.status === 'in-progress' && Date.now() < deadline) {
+        await delay(result.retryAfterMs ?? 5000);
+        result = (await refreshFn({ force: false })).data;
+      }
+      if (result.status === 'in-progress') throw new Error(result.message);
     } catch (err) {
       console.error('Failed to refresh forecast:', err);
-      const age = data?.updatedAt ? Date.now() - data.updatedAt.toMillis() : null;
+      const age = manifest?.updatedAt ? Date.now() - manifest.updatedAt.toMillis() : null;
       const ageText = age !== null
         ? age < 60 * 60 * 1000
           ? `${Math.round(age / 60000)} min`
@@ -47,7 +75,17 @@ export function useForecast(): UseForecastResult {
     } finally {
       setRefreshing(false);
     }
-  }, [refreshing, data]);
+  }, [refreshing, manifest]);
+
+  // The callable enforces the same TTL, so an early check with the default is harmless
+  useEffect(() => {
+    getDoc(doc(db, 'config', 'refresh'))
+      .then((snap) => {
+        const ttlMinutes = snap.exists() ? (snap.data() as Partial<RefreshConfig>).dataTtlMinutes : undefined;
+        if (ttlMinutes !== undefined) dataTtlMs.current = clampRefreshMinutes(ttlMinutes) * 60_000;
+      })
+      .catch(() => { /* keep default TTL */ });
+  }, []);
 
   useEffect(() => {
     const docRef = doc(db, 'forecasts', 'latest');
@@ -56,30 +94,63 @@ export function useForecast(): UseForecastResult {
       docRef,
       (snap) => {
         if (snap.exists()) {
-          const forecastData = snap.data() as ForecastData;
-          setData(forecastData);
-          setLoading(false);
+          const forecastManifest = snap.data() as ForecastManifest;
+          setManifest(forecastManifest);
+          setManifestLoading(false);
 
           // Check if data is stale
-          const age = Date.now() - forecastData.updatedAt.toMillis();
-          if (age >= DATA_TTL_MS) {
+          const age = Date.now() - forecastManifest.updatedAt.toMillis();
+          if (age >= dataTtlMs.current) {
             setNeedsRefresh(true);
           }
         } else {
           // No data yet — trigger refresh
-          setLoading(false);
+          setManifestLoading(false);
           setNeedsRefresh(true);
         }
       },
       (error) => {
         console.error('Firestore onSnapshot error:', error);
-        setLoading(false);
+        setManifestLoading(false);
       },
     );
 
     return unsubscribe;
   }, []);
 
+  // One subscription per requested spot that the manifest lists
+  const subscribedKey = useMemo(() => {
+    if (!pointIds || !manifest?.pointIds) return '';
+    const available = new Set(manifest.pointIds);
+    return pointIds.filter((id) => available.has(id)).sort().join(',');
+  }, [pointIds, manifest?.pointIds]);
+
+  useEffect(() => {
+    if (!subscribedKey) return;
+    const unsubscribes = subscribedKey.split(',').map((pointId) =>
+      onSnapshot(
+        doc(db, 'forecasts', 'latest', 'spots', pointId),
+        (snap) => {
+          if (!snap.exists()) return;
+          setSpotsById((prev) => ({ ...prev, [pointId]: snap.data() as SpotForecast }));
+        },
+        (error) => console.error(`Firestore onSnapshot error (spot ${pointId}):`, error),
+      ),
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [subscribedKey]);
+
+  const data = useMemo<ForecastData | null>(() => {
+    if (!manifest) return null;
+    const ids = subscribedKey ? subscribedKey.split(',') : [];
+    return { ...manifest, spots: ids.flatMap((id) => spotsById[id] ?? []) };
+  }, [manifest, subscribedKey, spotsById]);
+
+  // Loading until the manifest and every requested spot have arrived
+  const loading = manifestLoading ||
+    (pointIds === null && manifest !== null) ||
+    (!!subscribedKey && subscribedKey.split(',').some((id) => !spotsById[id]));
+
   // Auto-refresh when needed
   useEffect(() => {
     if (needsRefresh && !refreshing) {
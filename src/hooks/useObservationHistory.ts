@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { collection, onSnapshot, query, where, orderBy } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { ObservationSample } from '../types/forecast';
+
+/** YYYYMMDDHHmm UTC, the format of sample timestamps. */
+function csvTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 16).replace(/[-T:]/g, '');
+}
+
+/**
+ * Subscribe to the last 24 hours of 10-minute observations of a station,
+ * oldest first: whatever the browser's timezone, that covers the elapsed part
+ * of the spot's day. Nothing is read until `enabled` (e.g. once the spot's
+ * charts are shown).
+ */
+export function useObservationHistory(
+  stationId: string | null,
+  enabled: boolean,
+): ObservationSample[] | undefined {
+  const [samples, setSamples] = useState<ObservationSample[]>();
+
+  useEffect(() => {
+    if (!stationId || !enabled) return;
+
+    const since = new Date(Date.now() - 24 * 3600_000);
+    const q = query(
+      collection(db, 'observations', stationId, 'samples'),
+      where('timestamp', '>=', csvTimestamp(since)),
+      orderBy('timestamp'),
+    );
+    return onSnapshot(
+      q,
+      (snap) => setSamples(snap.docs.map((d) => d.data() as ObservationSample)),
+      () => {
+        // Silently ignore errors — keep stale data
+      },
+    );
+  }, [stationId, enabled]);
+
+  return samples;
+}
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { RefreshAttempt, RefreshHistory } from '../types/forecast';
+
+/**
+ * Recent refresh attempts (`refreshHistory/recent`, admin only), newest first, live.
+ * Null until loaded or when no attempt has been recorded.
+ */
+export function useRefreshHistory(): RefreshAttempt[] | null {
+  const [attempts, setAttempts] = useState<RefreshAttempt[] | null>(null);
+
+  useEffect(() => {
+    return onSnapshot(
+      doc(db, 'refreshHistory', 'recent'),
+      (snap) => setAttempts(snap.exists() ? (snap.data() as RefreshHistory).attempts : null),
+      (err) => console.error('Failed to load refresh history:', err),
+    );
+  }, []);
+
+  return attempts;
+}
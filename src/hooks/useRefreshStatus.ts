@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { RefreshStatus } from '../types/forecast';
+
+/**
+ * Outcome of the recent forecast refreshes (`forecasts/_status`), live.
+ * Null until a refresh has been recorded.
+ */
+export function useRefreshStatus(): RefreshStatus | null {
+  const [status, setStatus] = useState<RefreshStatus | null>(null);
+
+  useEffect(() => {
+    return onSnapshot(
+      doc(db, 'forecasts', '_status'),
+      (snap) => setStatus(snap.exists() ? snap.data() as RefreshStatus : null),
+      (err) => console.error('Failed to load refresh status:', err),
+    );
+  }, []);
+
+  return status;
+}
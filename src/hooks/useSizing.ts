@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_SIZE_CHARTS, type SizingContext } from '../utils/sizing';
+import type { SizeCharts } from '../types/forecast';
+
+/**
+ * Default size charts maintained by admins in `config/sizeCharts`,
+ * completed with the built-in charts for sports not configured.
+ */
+export function useSizeCharts(): SizeCharts {
+  const [charts, setCharts] = useState<SizeCharts>(DEFAULT_SIZE_CHARTS);
+
+  useEffect(() => {
+    return onSnapshot(
+      doc(db, 'config', 'sizeCharts'),
+      (snap) => {
+        setCharts(snap.exists()
+          ? { ...DEFAULT_SIZE_CHARTS, ...(snap.data() as Partial<SizeCharts>) }
+          : DEFAULT_SIZE_CHARTS);
+      },
+      (err) => console.error('Failed to load size charts:', err),
+    );
+  }, []);
+
+  return charts;
+}
+
+/**
+ * Size charts (admin defaults from `config/sizeCharts`, overridden per sport by
+ * the user's calibration) with the rider's weight and quiver.
+ * Null when the rider hasn't entered a weight.
+ */
+export function useSizing(): SizingContext | null {
+  const { preferences } = useAuth();
+  const adminCharts = useSizeCharts();
+
+  return useMemo(() => {
+    const weight = preferences?.riderWeight;
+    if (!weight) return null;
+    return {
+      weight,
+      quiver: preferences?.quiver ?? [],
+      charts: { ...adminCharts, ...preferences?.sizeCharts },
+    };
+  }, [adminCharts, preferences?.riderWeight, preferences?.quiver, preferences?.sizeCharts]);
+}
@@ -0,0 +1,33 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import type { SpotThresholds } from '../types/forecast';
+
+export function useSpotOverrides() {
+  const { user, preferences, updatePreferences } = useAuth();
+  const overrides = preferences?.spotOverrides;
+
+  const getOverride = useCallback(
+    (pointId: string): SpotThresholds | undefined => overrides?.[pointId],
+    [overrides],
+  );
+
+  /** Set (or clear, with null) the thresholds of one spot. Rejects when the save fails. */
+  const setOverride = useCallback(
+    async (pointId: string, override: SpotThresholds | null, onAuthNeeded?: () => void) => {
+      if (!user) {
+        onAuthNeeded?.();
+        return;
+      }
+      const next = { ...(overrides ?? {}) };
+      if (override && (override.windSpeedMin !== undefined || override.gustMin !== undefined)) {
+        next[pointId] = override;
+      } else {
+        delete next[pointId];
+      }
+      await updatePreferences({ spotOverrides: next });
+    },
+    [user, overrides, updatePreferences],
+  );
+
+  return { getOverride, setOverride };
+}
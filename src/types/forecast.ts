@@ -21,8 +21,41 @@ export interface SpotWebcam {
   title: string;
 }
 
+// --- Per-spot wind correction ---
+
+export type CorrectionMode = 'manual' | 'learned';
+
+/** Correction for one 45° sector: corrected = raw × factor + offset. */
+export interface SectorCorrection {
+  speedFactor: number;
+  gustFactor: number;
+  offset: number;
+}
+
+export interface SpotCorrection {
+  mode: CorrectionMode;
+  /** 8 sectors starting at N, clockwise. Used in manual mode. */
+  sectors: SectorCorrection[];
+}
+
+// --- Per-spot wind direction sectors ---
+
+/** Indices of the 16 compass points (0 = N, clockwise), 22.5° each. */
+export interface WindSectors {
+  /** When empty, every non-dangerous direction is allowed. */
+  good: number[];
+  dangerous: number[];
+  /** Bearing from the shore towards open water, in degrees. */
+  waterBearing?: number;
+}
+
+export type WindExposure = 'onshore' | 'side-on' | 'offshore';
+
 // --- Firestore config documents ---
 
+/** Forecast source of a spot. Spots without `provider` use MétéoSuisse. */
+export type ForecastProviderId = 'meteoswiss' | 'grid';
+
 export interface SpotConfig {
   id: string;
   name: string;
@@ -35,6 +68,9 @@ export interface SpotConfig {
   alplakesKey: string;
   waterBodyId?: string;
   webcams?: SpotWebcam[];
+  correction?: SpotCorrection;
+  provider?: ForecastProviderId;
+  sectors?: WindSectors;
 }
 
 export interface CurrentWeather {
@@ -44,27 +80,101 @@ export interface CurrentWeather {
   windDir: number | null;
 }
 
+/** One 10-minute SwissMetNet observation. */
+export interface ObservationSample extends CurrentWeather {
+  timestamp: string; // YYYYMMDDHHmm UTC
+}
+
+/**
+ * Firestore `observations/{stationId}`, written by the ingestObservations function.
+ * The last 48h of samples are in `observations/{stationId}/samples/{timestamp}`.
+ */
+export interface ObservationDocument {
+  stationId: string;
+  latest: ObservationSample;
+  updatedAt: { toMillis: () => number }; // Firestore Timestamp
+}
+
 export interface NavigabilityConfig {
   windSpeedMin: number;
   windSpeedMax: number;
   gustMin: number;
+  gustMax?: number;
+  /** Maximum gust spread (gust − mean speed) in km/h before an hour counts as too gusty. */
+  gustSpreadMax?: number;
   minConsecutiveHours: number;
   dayStartHour: number;
   dayEndHour: number;
+  daylightMargin?: number; // minutes after sunrise / before sunset, user preference
   timezone: string;
 }
 
+/** Per-spot user thresholds; unset fields use the global values. */
+export type SpotThresholds = Partial<Pick<NavigabilityConfig, 'windSpeedMin' | 'gustMin'>>;
+
+/** A rider's piece of gear and the wind range it works in. */
+export interface EquipmentProfile {
+  id: string;
+  name: string;
+  windSpeedMin: number;
+  gustMin: number;
+  windSpeedMax?: number;
+}
+
+/** Stored in `config/refresh`: server-side refresh cadence and data freshness. */
+export interface RefreshConfig {
+  /** When false, only client visits trigger a refresh. */
+  enabled: boolean;
+  /** Minimum age of the stored forecast before the scheduled refresh runs again. */
+  intervalMinutes: number;
+  /** Age after which clients and the callable consider the data stale. */
+  dataTtlMinutes: number;
+}
+
+export type Sport = 'wing' | 'kite';
+
+/** One point of a size chart: recommended area (m²) at a given wind (km/h). */
+export interface SizeChartRow {
+  wind: number;
+  size: number;
+}
+
+/** Size chart for a rider of `referenceWeight` kg; sizes scale linearly with weight. */
+export interface SizeChart {
+  referenceWeight: number;
+  rows: SizeChartRow[];
+}
+
+/** Stored in `config/sizeCharts` (admin defaults) and in user preferences (calibration). */
+export type SizeCharts = Record<Sport, SizeChart>;
+
+export interface QuiverItem {
+  sport: Sport;
+  size: number; // m²
+}
+
 // --- Forecast data from Firestore ---
 
 export interface HourlyData {
-  hour: number;
+  hour: number; // local hour, repeated on the autumn DST day
+  time?: number; // UTC ms, unique per hour
+  utcOffset?: number; // minutes
   speed: number;
   gust: number;
   dir: number;
   dirText: string;
-  sun: number;
+  sun?: number; // min, absent when the sunshine forecast is missing
+  temp?: number; // °C
+  precip?: number; // mm
+  precipProb?: number; // %
+  cloud?: number; // %, approximated from the weather pictogram
+  thunderstorm?: boolean;
+  raw?: { speed: number; gust: number };
 }
 
+/** Classification of one forecast hour against the navigability limits. */
+export type WindClass = 'too-light' | 'good' | 'overpowered' | 'too-gusty';
+
 export interface NavigableSlot {
   start: number;
   end: number;
@@ -72,19 +182,43 @@ export interface NavigableSlot {
   avgSpeed: number;
   avgGust: number;
   direction: string;
+  exposure?: WindExposure;
+  equipment?: string; // equipment profile name
+  score?: number; // quality 0–100
+}
+
+/** Sunrise and sunset, in minutes after local midnight. */
+export interface Daylight {
+  sunrise: number;
+  sunset: number;
 }
 
 export interface DayForecast {
   date: string;
-  sunshine: number;
+  sunshine?: number; // hours
+  waterTemp?: DayWaterTemp;
+  daylight?: Daylight;
   isNavigable: boolean;
   slots: NavigableSlot[];
   hourly: HourlyData[];
 }
 
+export interface WaterTempSample {
+  time: number; // ms since epoch
+  temp: number; // °C
+}
+
 export interface WaterTemp {
   current: number | null;
   depth: number;
+  /** Alplakes series from 24h ago to the end of the simulation. */
+  series?: WaterTempSample[];
+}
+
+/** Mean water temperature of a day's morning (6–12h) and afternoon (12–18h). */
+export interface DayWaterTemp {
+  morning: number | null;
+  afternoon: number | null;
 }
 
 export interface SpotForecast {
@@ -96,11 +230,119 @@ export interface SpotForecast {
   lake: string;
   waterBodyName?: string;
   waterTemp: WaterTemp;
+  correction?: CorrectionMode;
+  /** Parameters that could not be refreshed for this spot (previous run reused or missing). */
+  degradedParams?: ForecastParam[];
+  provenance?: SpotProvenance;
   days: DayForecast[];
 }
 
-export interface ForecastData {
+/** Sources of a spot's data, recorded at refresh time. */
+export interface SpotProvenance {
+  provider: ForecastProviderId;
+  forecastPoint: { id: string; lat?: number; lon?: number; name?: string; distanceKm?: number };
+  runs?: Partial<Record<ForecastParam, string>>; // YYYYMMDDHHmm UTC per parameter, MétéoSuisse only
+  alplakes?: { lake: string; simulationStart?: number; simulationUpdatedAt?: number }; // ms since epoch
+  station?: { id: string; name?: string; distanceKm?: number; observedAt?: string }; // YYYYMMDDHHmm UTC
+}
+
+/** Forecast parameters fetched from MétéoSuisse, one CSV each. */
+export type ForecastParam = 'speed' | 'gust' | 'dir' | 'sun' | 'temp' | 'precip' | 'precipProb' | 'pictogram';
+
+/** Outcome of the last refresh for one parameter. */
+export interface ParamStatus {
+  status: 'ok' | 'fallback' | 'missing';
+  /** CSV run used: the current one when ok, an older one when fallback. */
+  csvTimestamp?: string;
+  error?: string;
+}
+
+/** `forecasts/latest`: run metadata; each spot is in `forecasts/latest/spots/{pointId}`. */
+export interface ForecastManifest {
   updatedAt: { toMillis: () => number }; // Firestore Timestamp
   csvTimestamp: string;
+  paramStatus?: Partial<Record<ForecastParam, ParamStatus>>;
+  pointIds?: string[]; // missing in documents written before per-spot storage
+}
+
+/** Manifest with the spot forecasts loaded by useForecast. */
+export interface ForecastData extends ForecastManifest {
   spots: SpotForecast[];
 }
+
+// --- Refresh status ---
+
+export type Upstream = ForecastProviderId | 'alplakes';
+
+export interface UpstreamFailure {
+  upstream: Upstream;
+  error: string;
+  partial?: boolean; // some parameters or lakes failed, the rest was updated
+}
+
+export interface RefreshAttempt {
+  at: { toMillis: () => number }; // Firestore Timestamp
+  trigger: 'client' | 'scheduled';
+  outcome: 'success' | 'degraded' | 'failed';
+  durationMs: number;
+  csvTimestamp?: string;
+  failures: UpstreamFailure[];
+  error?: string;
+}
+
+/** Kind of a refresh error; the public status has no error messages. */
+export type RefreshErrorCode = 'unavailable' | 'timeout' | 'invalid-data' | 'internal';
+
+export interface PublicUpstreamFailure {
+  upstream: Upstream;
+  code: RefreshErrorCode;
+  partial?: boolean;
+}
+
+/** A refresh attempt as published in `forecasts/_status`. */
+export interface PublicRefreshAttempt extends Omit<RefreshAttempt, 'failures' | 'error'> {
+  failures: PublicUpstreamFailure[];
+  errorCode?: RefreshErrorCode;
+}
+
+export interface UpstreamOutage extends PublicUpstreamFailure {
+  since: { toMillis: () => number }; // first failure of the ongoing outage
+}
+
+/** `forecasts/_status`, written by every refresh that runs. */
+export interface RefreshStatus {
+  lastAttempt: PublicRefreshAttempt;
+  lastSuccess?: { at: { toMillis: () => number }; csvTimestamp: string };
+  outages: UpstreamOutage[];
+}
+
+/** `refreshHistory/recent`, admin read only. */
+export interface RefreshHistory {
+  attempts: RefreshAttempt[]; // newest first
+}
+
+// --- Forecast verification (admin) ---
+
+/** Running sums for one lead-time bucket; errors are forecast − observed. */
+export interface LeadTimeStats {
+  n: number;
+  speedErrSum: number;
+  speedAbsErrSum: number;
+  gustN: number;
+  gustErrSum: number;
+  gustAbsErrSum: number;
+  dirN: number;
+  dirAbsErrSum: number;
+  hits: number;
+  misses: number;
+  falseAlarms: number;
+  correctNegatives: number;
+}
+
+export interface VerificationDocument {
+  pointId: string;
+  name: string;
+  stationId: string;
+  lastVerifiedAt: { toMillis: () => number };
+  leadTimes: Record<string, LeadTimeStats>;
+}
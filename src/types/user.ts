@@ -1,4 +1,5 @@
 import type { User } from 'firebase/auth';
+import type { EquipmentProfile, QuiverItem, SizeCharts, SpotThresholds } from './forecast';
 
 export type ThemePreference = 'light' | 'dark' | 'system';
 
@@ -9,6 +10,19 @@ export interface UserPreferences {
   selectedSpots?: string[];
   themePreference?: ThemePreference;
   favoriteSpots?: string[];
+  /** Rule expression replacing the speed/gust thresholds; empty when unused. */
+  navigabilityRule?: string;
+  /** Thresholds per pointId, overriding windSpeedMin/gustMin for that spot. */
+  spotOverrides?: Record<string, SpotThresholds>;
+  equipment?: EquipmentProfile[];
+  /** Profile selected in the header; empty means all profiles. */
+  activeEquipmentId?: string;
+  riderWeight?: number; // kg, 0 when cleared (no size suggestions)
+  quiver?: QuiverItem[];
+  /** User calibration replacing the admin size chart of a sport. */
+  sizeCharts?: Partial<SizeCharts>;
+  /** Minutes kept clear after sunrise and before sunset. */
+  daylightMargin?: number;
 }
 
 export const DEFAULT_USER_PREFERENCES: UserPreferences = {
@@ -0,0 +1,20 @@
+import type { EquipmentProfile } from '../types/forecast';
+
+function isNonNegative(x: number): boolean {
+  return Number.isFinite(x) && x >= 0;
+}
+
+/**
+ * Why an equipment profile can't be saved, or null when it is valid. An
+ * emptied input is kept as NaN, so it is caught here instead of becoming 0.
+ */
+export function equipmentError(profile: EquipmentProfile): string | null {
+  if (!isNonNegative(profile.windSpeedMin) || !isNonNegative(profile.gustMin)) {
+    return 'Le vent min et les rafales min doivent être des nombres positifs.';
+  }
+  if (profile.windSpeedMax !== undefined) {
+    if (!isNonNegative(profile.windSpeedMax)) return 'Le vent max doit être un nombre positif.';
+    if (profile.windSpeedMax < profile.windSpeedMin) return 'Le vent max doit être supérieur ou égal au vent min.';
+  }
+  return null;
+}
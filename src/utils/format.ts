@@ -1,3 +1,5 @@
+import type { ForecastParam, RefreshErrorCode, Upstream, WindExposure } from '../types/forecast';
+
 /**
  * Format a day label in French.
  * Returns "Aujourd'hui", "Demain", or the day name (e.g., "Lundi").
@@ -20,17 +22,21 @@ export function dayLabel(dateStr: string): string {
  * Format a relative time string in French (e.g., "il y a 23 min").
  */
 export function relativeTime(timestampMs: number): string {
-  const diffMs = Date.now() - timestampMs;
-  const diffMin = Math.floor(diffMs / 60000);
+  if (Date.now() - timestampMs < 60000) return "à l'instant";
+  return `il y a ${elapsed(timestampMs)}`;
+}
 
-  if (diffMin < 1) return "à l'instant";
-  if (diffMin < 60) return `il y a ${diffMin} min`;
+/**
+ * Time elapsed since a timestamp (e.g., "23 min", "2h", "3j").
+ */
+export function elapsed(timestampMs: number): string {
+  const diffMin = Math.max(0, Math.floor((Date.now() - timestampMs) / 60000));
+  if (diffMin < 60) return `${diffMin} min`;
 
   const diffHours = Math.floor(diffMin / 60);
-  if (diffHours < 24) return `il y a ${diffHours}h`;
+  if (diffHours < 24) return `${diffHours}h`;
 
-  const diffDays = Math.floor(diffHours / 24);
-  return `il y a ${diffDays}j`;
+  return `${Math.floor(diffHours / 24)}j`;
 }
 
 /**
@@ -45,3 +51,76 @@ export function lakeName(key: string): string {
   };
   return names[key] ?? key;
 }
+
+/**
+ * French names of forecast parameters, for degraded-data notices.
+ */
+export function forecastParamName(param: ForecastParam): string {
+  const names: Record<ForecastParam, string> = {
+    speed: 'vent',
+    gust: 'rafales',
+    dir: 'direction du vent',
+    sun: 'ensoleillement',
+    temp: 'température',
+    precip: 'précipitations',
+    precipProb: 'probabilité de pluie',
+    pictogram: 'nuages et orages',
+  };
+  return names[param];
+}
+
+/**
+ * Display names of the data sources a refresh depends on.
+ */
+/** French description of a refresh error kind. */
+export function refreshErrorLabel(code: RefreshErrorCode): string {
+  const labels: Record<RefreshErrorCode, string> = {
+    unavailable: 'service indisponible',
+    timeout: 'délai dépassé',
+    'invalid-data': 'données inattendues',
+    internal: 'erreur interne',
+  };
+  return labels[code];
+}
+
+export function upstreamName(upstream: Upstream): string {
+  const names: Record<Upstream, string> = {
+    meteoswiss: 'MétéoSuisse',
+    grid: 'Open-Meteo',
+    alplakes: 'Alplakes',
+  };
+  return names[upstream];
+}
+
+/**
+ * Format a MétéoSuisse run timestamp (YYYYMMDDHHmm UTC) as a local time, e.g. "10:00".
+ */
+export function runTime(csvTimestamp: string): string {
+  const date = new Date(Date.UTC(
+    Number(csvTimestamp.slice(0, 4)),
+    Number(csvTimestamp.slice(4, 6)) - 1,
+    Number(csvTimestamp.slice(6, 8)),
+    Number(csvTimestamp.slice(8, 10)),
+    Number(csvTimestamp.slice(10, 12)),
+  ));
+  return date.toLocaleTimeString('fr-CH', { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Short label of a slot's wind exposure relative to the shore.
+ */
+export function exposureLabel(exposure: WindExposure): string {
+  const labels: Record<WindExposure, string> = {
+    'onshore': 'on-shore',
+    'side-on': 'side-on',
+    'offshore': 'off-shore',
+  };
+  return labels[exposure];
+}
+
+/**
+ * Format minutes after midnight as a French clock time, e.g. 459 → "7h39".
+ */
+export function clockTime(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}`;
+}
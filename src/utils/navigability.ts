@@ -1,17 +1,84 @@
 import { dirText } from './windDirection';
-import type { HourlyData, NavigableSlot, NavigabilityConfig } from '../types/forecast';
+import type { CompiledRule } from './rule';
+import type { Daylight, DayWaterTemp, EquipmentProfile, HourlyData, NavigableSlot, NavigabilityConfig, SpotThresholds, WindClass, WindSectors, WindExposure } from '../types/forecast';
+
+/**
+ * Classify an hour against the speed and gust limits.
+ */
+export function classifyHour(h: Pick<HourlyData, 'speed' | 'gust'>, config: NavigabilityConfig): WindClass {
+  if (h.speed < config.windSpeedMin || h.gust < config.gustMin) return 'too-light';
+  if (h.speed > config.windSpeedMax) return 'overpowered';
+  if (config.gustMax != null && h.gust > config.gustMax) return 'overpowered';
+  if (config.gustSpreadMax != null && h.gust - h.speed > config.gustSpreadMax) return 'too-gusty';
+  return 'good';
+}
+
+/** Whether an hour stays within the upper limits, which a user rule cannot lift. */
+export function isWithinUpperLimits(h: Pick<HourlyData, 'speed' | 'gust'>, config: NavigabilityConfig): boolean {
+  return h.speed <= config.windSpeedMax &&
+    (config.gustMax == null || h.gust <= config.gustMax) &&
+    (config.gustSpreadMax == null || h.gust - h.speed <= config.gustSpreadMax);
+}
+
+/**
+ * Apply a user's per-spot thresholds on top of their effective config.
+ */
+export function applySpotOverride(
+  config: NavigabilityConfig,
+  override: SpotThresholds | undefined,
+): NavigabilityConfig {
+  if (!override) return config;
+  return clampLimits({
+    ...config,
+    windSpeedMin: override.windSpeedMin ?? config.windSpeedMin,
+    gustMin: override.gustMin ?? config.gustMin,
+  });
+}
+
+/**
+ * Keep the upper limits at or above the minimums, so a raised minimum never empties every slot.
+ */
+export function clampLimits(config: NavigabilityConfig): NavigabilityConfig {
+  return {
+    ...config,
+    windSpeedMax: Math.max(config.windSpeedMax, config.windSpeedMin),
+    ...(config.gustMax != null && { gustMax: Math.max(config.gustMax, config.gustMin) }),
+  };
+}
+
+/** Per-spot and per-user inputs of slot detection on top of the global config. */
+export interface SlotOptions {
+  sectors?: WindSectors;
+  /** User rule; replaces the speed and gust minimums when set, the upper limits still apply. */
+  rule?: CompiledRule;
+  /** Day's water temperature, one of the score criteria. */
+  waterTemp?: DayWaterTemp;
+  /** Day's sunrise and sunset; the fixed day hours apply when missing. */
+  daylight?: Daylight;
+}
+
+/**
+ * Whether an hour's midpoint lies between sunrise and sunset (minus the user margin),
+ * or within [dayStartHour, dayEndHour) without daylight.
+ */
+export function isInDayWindow(hour: number, config: NavigabilityConfig, daylight?: Daylight): boolean {
+  if (!daylight) return hour >= config.dayStartHour && hour < config.dayEndHour;
+  const margin = config.daylightMargin ?? 0;
+  const midpoint = hour * 60 + 30;
+  return midpoint >= daylight.sunrise + margin && midpoint <= daylight.sunset - margin;
+}
 
 /**
  * Calculate navigable slots for a day's hourly data using the given config.
- * Only considers hours within [dayStartHour, dayEndHour).
+ * Only considers hours within the daylight window (see isInDayWindow) and, when the spot
+ * has direction sectors, blowing from an allowed direction.
  */
 export function calculateSlots(
   hourly: HourlyData[],
   config: NavigabilityConfig,
+  { sectors, rule, waterTemp, daylight }: SlotOptions = {},
 ): NavigableSlot[] {
-  const validHours = hourly.filter(
-    (h) => h.hour >= config.dayStartHour && h.hour < config.dayEndHour,
-  );
+  const validHours = hourly.filter((h) => isInDayWindow(h.hour, config, daylight));
 
   const slots: NavigableSlot[] = [];
   let runStart = -1;
@@ -19,15 +86,15 @@ export function calculateSlots(
 
   for (const h of validHours) {
     const isNavigable =
-      h.speed >= config.windSpeedMin &&
-      h.gust >= config.gustMin;
+      (rule ? rule(h) && isWithinUpperLimits(h, config) : classifyHour(h, config) === 'good') &&
+      isDirectionAllowed(h.dir, sectors);
 
     if (isNavigable) {
       if (runStart === -1) runStart = h.hour;
       runHours.push(h);
     } else {
       if (runHours.length >= config.minConsecutiveHours) {
-        slots.push(buildSlot(runStart, runHours));
+        slots.push(buildSlot(runStart, runHours, config, sectors, waterTemp));
       }
       runStart = -1;
       runHours = [];
@@ -35,13 +102,92 @@ export function calculateSlots(
   }
 
   if (runHours.length >= config.minConsecutiveHours) {
-    slots.push(buildSlot(runStart, runHours));
+    slots.push(buildSlot(runStart, runHours, config, sectors, waterTemp));
   }
 
   return slots;
 }
 
-function buildSlot(startHour: number, hours: HourlyData[]): NavigableSlot {
+/**
+ * Navigable slots per equipment profile, tagged with the profile name and sorted by start hour.
+ * The spot override applies on top of each profile.
+ */
+export function calculateEquipmentSlots(
+  hourly: HourlyData[],
+  config: NavigabilityConfig,
+  profiles: EquipmentProfile[],
+  override: SpotThresholds | undefined,
+  options: SlotOptions = {},
+): NavigableSlot[] {
+  if (profiles.length === 0 || options.rule) return calculateSlots(hourly, applySpotOverride(config, override), options);
+  return profiles
+    .flatMap((profile) =>
+      calculateSlots(hourly, applySpotOverride(applyEquipment(config, profile), override), options)
+        .map((slot) => ({ ...slot, equipment: profile.name })),
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Wind class of an hour under the same criteria as calculateEquipmentSlots, so
+ * the chart agrees with the slots. With a rule, hours it rejects count as too
+ * light since it replaces the minimums. With several profiles, an hour is good
+ * when one of them suits it, too light when all need more wind, and otherwise
+ * takes the class of the first profile it is too much for.
+ */
+export function classifyEquipmentHour(
+  h: HourlyData,
+  config: NavigabilityConfig,
+  profiles: EquipmentProfile[],
+  override: SpotThresholds | undefined,
+  rule?: CompiledRule,
+): WindClass {
+  if (rule) {
+    const spotConfig = applySpotOverride(config, override);
+    if (!isWithinUpperLimits(h, spotConfig)) return classifyHour(h, { ...spotConfig, windSpeedMin: 0, gustMin: 0 });
+    return rule(h) ? 'good' : 'too-light';
+  }
+  if (profiles.length === 0) return classifyHour(h, applySpotOverride(config, override));
+  const classes = profiles.map((profile) => classifyHour(h, applySpotOverride(applyEquipment(config, profile), override)));
+  if (classes.includes('good')) return 'good';
+  return classes.find((c) => c !== 'too-light') ?? 'too-light';
+}
+
+/**
+ * Thresholds to draw for a user at a spot: those of the single profile in use,
+ * or the widest range over several profiles (lowest minimums, highest maximum).
+ */
+export function equipmentLimits(
+  config: NavigabilityConfig,
+  profiles: EquipmentProfile[],
+  override: SpotThresholds | undefined,
+): NavigabilityConfig {
+  if (profiles.length === 0) return applySpotOverride(config, override);
+  const configs = profiles.map((profile) => applySpotOverride(applyEquipment(config, profile), override));
+  return {
+    ...configs[0],
+    windSpeedMin: Math.min(...configs.map((c) => c.windSpeedMin)),
+    gustMin: Math.min(...configs.map((c) => c.gustMin)),
+    windSpeedMax: Math.max(...configs.map((c) => c.windSpeedMax)),
+  };
+}
+
+function applyEquipment(config: NavigabilityConfig, profile: EquipmentProfile): NavigabilityConfig {
+  return clampLimits({
+    ...config,
+    windSpeedMin: profile.windSpeedMin,
+    gustMin: profile.gustMin,
+    windSpeedMax: profile.windSpeedMax ?? config.windSpeedMax,
+  });
+}
+
+function buildSlot(
+  startHour: number,
+  hours: HourlyData[],
+  config: NavigabilityConfig,
+  sectors?: WindSectors,
+  waterTemp?: DayWaterTemp,
+): NavigableSlot {
   const avgSpeed = Math.round(
     hours.reduce((sum, h) => sum + h.speed, 0) / hours.length,
   );
@@ -57,9 +203,89 @@ function buildSlot(startHour: number, hours: HourlyData[]): NavigableSlot {
     avgSpeed,
     avgGust,
     direction: dirText(avgDir),
+    ...(sectors?.waterBearing != null && { exposure: windExposure(avgDir, sectors.waterBearing) }),
+    score: scoreSlot(hours, config, sectors, waterTemp),
   };
 }
 
+/**
+ * Quality score of a slot, 0–100: duration (25), wind steadiness (20), gust spread (20),
+ * direction fit (15), sunshine (10) and water temperature (10).
+ */
+function scoreSlot(
+  hours: HourlyData[],
+  config: NavigabilityConfig,
+  sectors?: WindSectors,
+  waterTemp?: DayWaterTemp,
+): number {
+  const clamp = (x: number) => Math.min(1, Math.max(0, x));
+  const mean = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+
+  const speeds = hours.map((h) => h.speed);
+  const avgSpeed = mean(speeds);
+  const speedSd = Math.sqrt(mean(speeds.map((s) => (s - avgSpeed) ** 2)));
+  const spread = mean(hours.map((h) => h.gust - h.speed));
+  const maxSpread = config.gustSpreadMax ?? 20;
+
+  const duration = clamp(hours.length / 4);
+  const steadiness = avgSpeed > 0 ? clamp(1 - speedSd / avgSpeed / 0.3) : 0;
+  const gustiness = clamp(1 - (spread - 5) / Math.max(maxSpread - 5, 1));
+  const directionFit = mean(hours.map((h) => directionScore(h.dir, sectors)));
+  const sunMinutes = hours.flatMap((h) => (h.sun !== undefined ? [h.sun] : []));
+  const sunshine = sunMinutes.length > 0 ? clamp(mean(sunMinutes) / 60) : 0.5;
+  const midHour = (hours[0].hour + hours[hours.length - 1].hour + 1) / 2;
+  const water = midHour < 12
+    ? waterTemp?.morning ?? waterTemp?.afternoon
+    : waterTemp?.afternoon ?? waterTemp?.morning;
+  const warmth = water == null ? 0.5 : clamp((water - 10) / 10);
+
+  return Math.round(
+    25 * duration + 20 * steadiness + 20 * gustiness + 15 * directionFit + 10 * sunshine + 10 * warmth,
+  );
+}
+
+/**
+ * Direction fit of an hour, 0–1: side-on best relative to the shore (onshore 0.5,
+ * offshore 0), and 1 at the centre of the good sectors down to 0.5 at their edge.
+ */
+function directionScore(deg: number, sectors?: WindSectors): number {
+  const fits: number[] = [];
+  if (sectors?.waterBearing != null) {
+    const diff = angleBetween(deg, sectors.waterBearing);
+    fits.push(diff <= 90 ? 0.5 + diff / 180 : (180 - diff) / 90);
+  }
+  if (sectors && sectors.good.length > 0) {
+    const directions = sectors.good.map((s) => s * 22.5);
+    const centre = averageDirection(directions);
+    const halfWidth = Math.max(...directions.map((d) => angleBetween(d, centre))) + 11.25;
+    fits.push(Math.max(0, 1 - angleBetween(deg, centre) / halfWidth / 2));
+  }
+  return fits.length > 0 ? fits.reduce((sum, x) => sum + x, 0) / fits.length : 1;
+}
+
+function angleBetween(a: number, b: number): number {
+  return Math.abs((((a - b) % 360) + 540) % 360 - 180);
+}
+
+/** Index of the 16-point compass sector containing a direction (0 = N). */
+function compassSector(deg: number): number {
+  return Math.round((((deg % 360) + 360) % 360) / 22.5) % 16;
+}
+
+function isDirectionAllowed(deg: number, sectors?: WindSectors): boolean {
+  if (!sectors) return true;
+  const sector = compassSector(deg);
+  if (sectors.dangerous.includes(sector)) return false;
+  return sectors.good.length === 0 || sectors.good.includes(sector);
+}
+
+function windExposure(deg: number, waterBearing: number): WindExposure {
+  const diff = angleBetween(deg, waterBearing);
+  if (diff <= 45) return 'onshore';
+  if (diff >= 135) return 'offshore';
+  return 'side-on';
+}
+
 function averageDirection(directions: number[]): number {
   let sinSum = 0;
   let cosSum = 0;
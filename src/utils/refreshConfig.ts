@@ -0,0 +1,12 @@
+/** Accepted range of both refresh durations, in minutes; the server clamps to the same range. */
+export const REFRESH_MINUTES_MIN = 10;
+export const REFRESH_MINUTES_MAX = 360;
+
+/**
+ * A refresh duration within [REFRESH_MINUTES_MIN, REFRESH_MINUTES_MAX], or the
+ * fallback when it is not a number (e.g. an emptied input).
+ */
+export function clampRefreshMinutes(value: unknown, fallback = 60): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(REFRESH_MINUTES_MAX, Math.max(REFRESH_MINUTES_MIN, value));
+}
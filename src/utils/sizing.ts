@@ -0,0 +1,126 @@
+import type { NavigableSlot, QuiverItem, SizeChart, SizeCharts, Sport } from '../types/forecast';
+
+/** Used until an admin saves `config/sizeCharts`. Wing and kite areas for a 75 kg rider. */
+export const DEFAULT_SIZE_CHARTS: SizeCharts = {
+  wing: {
+    referenceWeight: 75,
+    rows: [
+      { wind: 12, size: 7 },
+      { wind: 15, size: 6 },
+      { wind: 20, size: 5 },
+      { wind: 25, size: 4 },
+      { wind: 30, size: 3.5 },
+      { wind: 40, size: 2.5 },
+    ],
+  },
+  kite: {
+    referenceWeight: 75,
+    rows: [
+      { wind: 15, size: 14 },
+      { wind: 20, size: 12 },
+      { wind: 25, size: 10 },
+      { wind: 30, size: 8 },
+      { wind: 35, size: 7 },
+      { wind: 45, size: 5 },
+    ],
+  },
+};
+
+export const SPORT_LABELS: Record<Sport, string> = {
+  wing: 'wing',
+  kite: 'kite',
+};
+
+/** Everything needed to suggest sizes; null when the rider has no weight set. */
+export interface SizingContext {
+  weight: number;
+  quiver: QuiverItem[];
+  charts: SizeCharts;
+}
+
+export interface SizeSuggestion {
+  sport: Sport;
+  /** Size from the quiver closest to the ideal one, or the ideal size without a quiver. */
+  size: number;
+  ideal: number;
+}
+
+/**
+ * Wind used for sizing: the mean speed pulled a third of the way towards the gusts.
+ */
+function sizingWind(slot: NavigableSlot): number {
+  return slot.avgSpeed + (slot.avgGust - slot.avgSpeed) / 3;
+}
+
+function isPositive(x: number): boolean {
+  return Number.isFinite(x) && x > 0;
+}
+
+/**
+ * Why a size chart can't be saved, or null when it is valid. An empty input
+ * is stored as 0, so the reference weight and every size must be positive.
+ */
+export function sizeChartError(chart: SizeChart): string | null {
+  if (!isPositive(chart.referenceWeight)) return 'Le poids de référence doit être supérieur à 0.';
+  if (chart.rows.length === 0) return 'Le barème doit contenir au moins une ligne.';
+  if (chart.rows.some((r) => !Number.isFinite(r.wind) || r.wind < 0)) return 'Chaque ligne doit avoir un vent positif.';
+  if (chart.rows.some((r) => !isPositive(r.size))) return 'Chaque ligne doit avoir une taille supérieure à 0.';
+  return null;
+}
+
+/** Whether a rider weight can be used for sizing. */
+export function isValidWeight(weight: number): boolean {
+  return isPositive(weight);
+}
+
+/**
+ * Ideal size for a wind and rider weight: linear interpolation between chart
+ * rows (clamped to the first/last row), scaled by weight / reference weight.
+ * Null when the weights or every row are unusable (e.g. charts saved before validation).
+ */
+export function idealSize(chart: SizeChart, wind: number, weight: number): number | null {
+  if (!isPositive(weight) || !isPositive(chart.referenceWeight)) return null;
+  const rows = chart.rows
+    .filter((r) => Number.isFinite(r.wind) && isPositive(r.size))
+    .sort((a, b) => a.wind - b.wind);
+  if (rows.length === 0) return null;
+
+  let size: number;
+  if (wind <= rows[0].wind) {
+    size = rows[0].size;
+  } else if (wind >= rows[rows.length - 1].wind) {
+    size = rows[rows.length - 1].size;
+  } else {
+    const i = rows.findIndex((r) => r.wind > wind);
+    const lo = rows[i - 1];
+    const hi = rows[i];
+    size = lo.size + ((wind - lo.wind) / (hi.wind - lo.wind)) * (hi.size - lo.size);
+  }
+  return size * (weight / chart.referenceWeight);
+}
+
+/**
+ * Suggest one size per sport of the quiver (wing only when the quiver is empty).
+ */
+export function suggestSizes(slot: NavigableSlot, ctx: SizingContext): SizeSuggestion[] {
+  const sports: Sport[] = ctx.quiver.length > 0
+    ? [...new Set(ctx.quiver.map((q) => q.sport))]
+    : ['wing'];
+
+  return sports.flatMap((sport) => {
+    const ideal = idealSize(ctx.charts[sport], sizingWind(slot), ctx.weight);
+    if (ideal === null) return [];
+    const owned = ctx.quiver.filter((q) => q.sport === sport).map((q) => q.size);
+    const size = owned.length > 0
+      ? owned.reduce((best, s) => (Math.abs(s - ideal) < Math.abs(best - ideal) ? s : best))
+      : Math.round(ideal * 2) / 2;
+    return [{ sport, size, ideal: Math.round(ideal * 10) / 10 }];
+  });
+}
+
+/**
+ * Short text, e.g. "wing 5 m · kite 9 m".
+ */
+export function formatSizeSuggestions(suggestions: SizeSuggestion[]): string {
+  return suggestions.map((s) => `${SPORT_LABELS[s.sport]} ${s.size} m`).join(' · ');
+}
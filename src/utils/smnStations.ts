@@ -1,3 +1,6 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
 export interface SmnStation {
   name: string;
   location: string; // "Name, Canton"
@@ -17,51 +20,12 @@ export const SMN_STATIONS_FALLBACK: Record<string, SmnStation> = {
   BIE: { name: 'Bière', location: 'Bière, VD', lat: 46.5249, lon: 6.3424 },
 };
 
-const STATIONS_CSV_URL =
-  'https://data.geo.admin.ch/ch.meteoschweiz.messnetz-automatisch/ch.meteoschweiz.messnetz-automatisch_de.csv';
-
 /**
- * Fetches the complete list of SMN automatic stations from MeteoSuisse open data.
- * Only returns stations that measure wind.
- * CSV columns (semicolon-separated, double-quoted):
- *   0: Station name, 1: Abbreviation, 3: Type, 10: Latitude, 11: Longitude,
- *   13: Canton, 14: Measurements
+ * Fetches the SMN automatic stations that measure wind. The refresh function
+ * downloads the MeteoSuisse network list once a day into `config/smnStations`;
+ * empty until it has done so.
  */
 export async function fetchSmnStations(): Promise<Record<string, SmnStation>> {
-  const res = await fetch(STATIONS_CSV_URL);
-  if (!res.ok) throw new Error(`Failed to fetch SMN stations: ${res.status}`);
-  const csv = await res.text();
-
-  const stations: Record<string, SmnStation> = {};
-  const lines = csv.split('\n');
-
-  // Skip header row (index 0)
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const cols = line.split(';').map((c) => c.replace(/^"|"$/g, ''));
-    const stationName = cols[0];
-    const id = cols[1];
-    const measurements = cols[14] ?? '';
-    const canton = cols[13] ?? '';
-
-    if (!id || !stationName) continue;
-
-    const lat = parseFloat(cols[10]);
-    const lon = parseFloat(cols[11]);
-    if (!isFinite(lat) || !isFinite(lon)) continue;
-
-    // Only include stations that measure wind (Wetterstationen)
-    if (!measurements.includes('Wind')) continue;
-
-    stations[id] = {
-      name: stationName,
-      location: canton ? `${stationName}, ${canton}` : stationName,
-      lat,
-      lon,
-    };
-  }
-
-  return stations;
+  const snap = await getDoc(doc(db, 'config', 'smnStations'));
+  return snap.exists() ? (snap.data().entries as Record<string, SmnStation>) : {};
 }